@@ -0,0 +1,139 @@
+import { formatIssuePath, type StandardSchemaIssue } from "./helpers/schema";
+import type { IsolationLevel, Propagation } from "./internal/transactional";
+
+/**
+ * 트랜잭션 전파 규칙 위반 에러
+ * - MANDATORY: 활성화된 트랜잭션 없이 호출한 경우
+ * - NEVER: 트랜잭션 안에서 호출한 경우
+ */
+export class TransactionPropagationError extends Error {
+  /** 위반한 전파 방식 */
+  readonly propagation: Propagation;
+
+  constructor(propagation: Propagation, message: string) {
+    super(message);
+    this.name = "TransactionPropagationError";
+    this.propagation = propagation;
+  }
+}
+
+/**
+ * 트랜잭션 격리 수준 불일치 에러
+ * - 기존 트랜잭션에 참여하면서 다른 격리 수준을 요청한 경우
+ */
+export class TransactionIsolationError extends Error {
+  /** 요청한 격리 수준 */
+  readonly requested: IsolationLevel;
+  /** 현재 트랜잭션의 격리 수준 (시작 시 지정하지 않았으면 DB에서 조회한 실제 격리 수준) */
+  readonly current: IsolationLevel | undefined;
+
+  constructor(requested: IsolationLevel, current: IsolationLevel | undefined) {
+    super(
+      `진행 중인 트랜잭션(${current ?? "DB 기본값"})에 다른 격리 수준(${requested})으로 참여할 수 없습니다. propagation: 'REQUIRES_NEW'를 사용해주세요.`,
+    );
+    this.name = "TransactionIsolationError";
+    this.requested = requested;
+    this.current = current;
+  }
+}
+
+/**
+ * 트랜잭션 타임아웃/취소 에러
+ * - timeout 시간 안에 끝나지 않았거나 signal로 취소되어 롤백된 경우
+ * - 이후 같은 컨텍스트에서 실행하는 쿼리도 이 에러로 거부됨
+ */
+export class TransactionTimeoutError extends Error {
+  /** 설정한 타임아웃 (ms, signal로 취소된 경우 undefined) */
+  readonly timeoutMs: number | undefined;
+
+  constructor(message: string, timeoutMs?: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "TransactionTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * 조회 결과 없음 에러
+ * - DB.one(), DB.value()의 결과가 0개 행인 경우
+ */
+export class NotFoundError extends Error {
+  constructor(message = "쿼리 결과가 없습니다.") {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * 조회 결과 행 수 초과 에러
+ * - DB.one(), DB.oneOrNone(), DB.value(), DB.maybeValue()의 결과가 2개 이상의 행인 경우
+ */
+export class TooManyRowsError extends Error {
+  /** 반환된 행 수 */
+  readonly rowCount: number;
+
+  constructor(rowCount: number) {
+    super(`쿼리 결과는 최대 1개 행이어야 하지만 ${rowCount}개 행이 반환되었습니다.`);
+    this.name = "TooManyRowsError";
+    this.rowCount = rowCount;
+  }
+}
+
+/**
+ * 커서 토큰 검증 실패 에러
+ * - 형식이 잘못되었거나, 서명이 맞지 않거나, 다른 정렬 조건으로 만든 커서인 경우
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * 조회 결과 행 검증 실패 에러
+ * - DB 헬퍼에 schema 옵션을 지정했을 때 camelCase 변환한 행이 스키마와 맞지 않는 경우
+ */
+export class RowValidationError extends Error {
+  /** 실행한 SQL (알 수 없으면 undefined) */
+  readonly sql: string | undefined;
+  /** 검증에 실패한 행의 인덱스 (0부터) */
+  readonly rowIndex: number;
+  /** 첫 번째 이슈의 경로 (예: items[0].name, 행 전체면 빈 문자열) */
+  readonly path: string;
+  /** 스키마가 반환한 이슈 목록 */
+  readonly issues: ReadonlyArray<StandardSchemaIssue>;
+
+  constructor(
+    sql: string | undefined,
+    rowIndex: number,
+    issues: ReadonlyArray<StandardSchemaIssue>,
+  ) {
+    const path = formatIssuePath(issues[0]?.path);
+    const reason = issues[0]?.message ?? "스키마 검증에 실패했습니다.";
+    super(
+      `${rowIndex}번 행의 ${path || "값"} 검증에 실패했습니다: ${reason}${sql ? `\nSQL: ${sql}` : ""}`,
+    );
+    this.name = "RowValidationError";
+    this.sql = sql;
+    this.rowIndex = rowIndex;
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * 정렬 입력 검증 실패 에러
+ * - sortBy()에 허용 목록에 없는 정렬 키, 잘못된 형식, 중복된 키를 지정한 경우
+ * - 커서 페이지네이션의 정렬 컬럼이 조회 결과에 없거나 NULL 값인 경우 (input: 정렬 컬럼)
+ */
+export class InvalidSortError extends Error {
+  /** 문제가 된 정렬 입력 */
+  readonly input: string;
+
+  constructor(input: string, message: string) {
+    super(message);
+    this.name = "InvalidSortError";
+    this.input = input;
+  }
+}
@@ -1,4 +1,28 @@
-import { getDbType, isDateStringsEnabled } from "../internal/internal-db";
+import { type DbType, getDbType, isDateStringsEnabled } from "../internal/internal-db";
+
+/**
+ * 변환 옵션
+ * - 지정하지 않은 값은 기본 DB 인스턴스 설정을 따름 (getDbType, isDateStringsEnabled)
+ * - registerDb()로 등록한 DB는 자신의 DB 타입과 dateStrings 설정을 전달
+ */
+export interface CaseConvertOptions {
+  /** DB 타입 (PostgreSQL 값 변환, 날짜 포맷팅 기준) */
+  dbType?: DbType;
+  /** Date 객체를 DB 형식 문자열로 변환할지 여부 */
+  dateStrings?: boolean;
+}
+
+/**
+ * 기본값이 채워진 변환 옵션 (내부용)
+ */
+type ResolvedConvertOptions = Required<CaseConvertOptions>;
+
+function resolveOptions(options?: CaseConvertOptions): ResolvedConvertOptions {
+  return {
+    dbType: options?.dbType ?? getDbType(),
+    dateStrings: options?.dateStrings ?? isDateStringsEnabled(),
+  };
+}
 
 /**
  * Date 객체를 DB 형식 문자열로 변환합니다.
@@ -10,9 +34,9 @@ import { getDbType, isDateStringsEnabled } from "../internal/internal-db";
  * formatDateToDbString(new Date('2023-07-01T00:00:00Z')) // '2023-07-01'
  * formatDateToDbString(new Date('2023-07-01T14:30:00Z')) // '2023-07-01 14:30:00'
  */
-function formatDateToDbString(date: Date): string {
+function formatDateToDbString(date: Date, dbType: DbType): string {
   const pad = (n: number) => n.toString().padStart(2, "0");
-  const isMySQL = getDbType() === "mysql";
+  const isMySQL = dbType === "mysql";
 
   // MySQL: 로컬 타임존 메서드, PostgreSQL: UTC 메서드
   const year = isMySQL ? date.getFullYear() : date.getUTCFullYear();
@@ -137,9 +161,9 @@ function tryConvertNumericIndexedObject(value: unknown): unknown {
  * @param value 변환할 값
  * @returns 변환된 값
  */
-function convertPostgresValue(value: unknown): unknown {
+function convertPostgresValue(value: unknown, dbType: DbType): unknown {
   // PostgreSQL에서만 변환 수행
-  if (getDbType() !== "postgres") return value;
+  if (dbType !== "postgres") return value;
 
   // 1. JSON/JSONB 문자열 파싱
   const parsedJson = tryParseJsonString(value);
@@ -164,15 +188,28 @@ export function snakeToCamel(str: string): string {
   return str.replace(/[_-]+(.)/g, (_, chr) => chr.toUpperCase());
 }
 
+/**
+ * camelCase를 snake_case로 변환합니다.
+ * - 이미 snake_case인 문자열은 그대로 반환
+ */
+export function camelToSnake(str: string): string {
+  return str.replace(/([a-z0-9])([A-Z])/g, "$1_$2").replace(/([A-Z])([A-Z][a-z])/g, "$1_$2").toLowerCase();
+}
+
 /**
  * 값을 변환합니다 (PostgreSQL 타입 변환 + 재귀 처리).
  * @param value 변환할 값
  * @param recursive 재귀 변환 여부
+ * @param options 변환 옵션
  * @returns 변환된 값
  */
-function transformValue(value: unknown, recursive: boolean): unknown {
+function transformValue(
+  value: unknown,
+  recursive: boolean,
+  options: ResolvedConvertOptions
+): unknown {
   // PostgreSQL 복합 타입 변환 (JSON/JSONB, INTEGER[] 등)
-  const converted = convertPostgresValue(value);
+  const converted = convertPostgresValue(value, options.dbType);
 
   // null/undefined는 그대로 반환
   if (converted === null || converted === undefined) {
@@ -181,14 +218,16 @@ function transformValue(value: unknown, recursive: boolean): unknown {
 
   // Date 처리
   if (converted instanceof Date) {
-    return isDateStringsEnabled() ? formatDateToDbString(converted) : converted;
+    return options.dateStrings
+      ? formatDateToDbString(converted, options.dbType)
+      : converted;
   }
 
   // 배열 처리
   if (Array.isArray(converted)) {
     return converted.map((item) =>
       typeof item === "object" && item !== null
-        ? transformValue(item, recursive)
+        ? transformValue(item, recursive, options)
         : item
     );
   }
@@ -200,7 +239,7 @@ function transformValue(value: unknown, recursive: boolean): unknown {
 
     // 일반 객체 처리 (재귀)
     if (recursive) {
-      return toCamelCase(converted as Record<string, unknown>, recursive);
+      return toCamelCase(converted as Record<string, unknown>, recursive, options);
     }
   }
 
@@ -215,13 +254,15 @@ function transformValue(value: unknown, recursive: boolean): unknown {
  */
 export function toCamelCase<T = Record<string, unknown>>(
   obj: Record<string, unknown>,
-  recursive = true
+  recursive = true,
+  options?: CaseConvertOptions
 ): T {
   const result: Record<string, unknown> = {};
+  const resolved = resolveOptions(options);
 
   for (const [key, value] of Object.entries(obj)) {
     const camelKey = snakeToCamel(key);
-    result[camelKey] = transformValue(value, recursive);
+    result[camelKey] = transformValue(value, recursive, resolved);
   }
 
   return result as T;
@@ -231,7 +272,9 @@ export function toCamelCase<T = Record<string, unknown>>(
  * 배열의 각 객체를 camelCase로 변환합니다.
  */
 export function toCamelCaseArray<T = Record<string, unknown>>(
-  arr: Record<string, unknown>[]
+  arr: Record<string, unknown>[],
+  options?: CaseConvertOptions
 ): T[] {
-  return arr.map((item) => toCamelCase<T>(item));
+  const resolved = resolveOptions(options);
+  return arr.map((item) => toCamelCase<T>(item, true, resolved));
 }
@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { InvalidCursorError } from "../errors";
+
+// ============================================================
+// 커서 토큰 (키셋 페이지네이션)
+// - 형식: base64url(JSON payload).base64url(HMAC-SHA256 서명)
+// - payload: { k: 정렬 조건, v: 정렬 컬럼 값 목록 }
+// - 서명은 위변조만 막으며 값을 암호화하지는 않음
+// ============================================================
+
+/**
+ * 커서에 담을 수 있는 정렬 컬럼 값
+ */
+export type CursorValue = string | number | boolean | bigint | Date;
+
+/**
+ * Date/bigint는 JSON으로 표현할 수 없으므로 태그를 붙여 직렬화
+ */
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Date) return { $d: value.toISOString() };
+  if (typeof value === "bigint") return { $b: value.toString() };
+  if (["string", "number", "boolean"].includes(typeof value)) return value;
+  throw new Error(`커서에 담을 수 없는 정렬 컬럼 값입니다: ${String(value)}`);
+}
+
+function deserializeValue(value: unknown): CursorValue {
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  if (value && typeof value === "object") {
+    const tagged = value as Record<string, unknown>;
+    if (typeof tagged.$d === "string") {
+      const date = new Date(tagged.$d);
+      if (!Number.isNaN(date.getTime())) return date;
+    }
+    if (typeof tagged.$b === "string" && /^-?\d+$/.test(tagged.$b)) {
+      return BigInt(tagged.$b);
+    }
+  }
+  throw new InvalidCursorError("커서 값의 형식이 올바르지 않습니다.");
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * 정렬 컬럼 값 목록을 서명된 커서 토큰으로 변환합니다.
+ * @param values 정렬 컬럼 값 (NULL 불가)
+ * @param sortKey 정렬 조건 식별자 (다른 정렬 조건의 커서 사용 방지)
+ * @param secret 서명 키
+ */
+export function encodeCursor(values: unknown[], sortKey: string, secret: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({ k: sortKey, v: values.map(serializeValue) })
+  ).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * 커서 토큰을 검증하고 정렬 컬럼 값 목록으로 변환합니다.
+ * - 형식 오류, 서명 불일치, 정렬 조건 불일치 시 InvalidCursorError
+ */
+export function decodeCursor(token: string, sortKey: string, secret: string): CursorValue[] {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    throw new InvalidCursorError("커서 형식이 올바르지 않습니다.");
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidCursorError("커서 서명이 올바르지 않습니다.");
+  }
+
+  let decoded: { k?: unknown; v?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    throw new InvalidCursorError("커서 형식이 올바르지 않습니다.");
+  }
+  if (decoded?.k !== sortKey) {
+    throw new InvalidCursorError("다른 정렬 조건으로 만든 커서입니다.");
+  }
+  if (!Array.isArray(decoded.v)) {
+    throw new InvalidCursorError("커서 값의 형식이 올바르지 않습니다.");
+  }
+  return decoded.v.map(deserializeValue);
+}
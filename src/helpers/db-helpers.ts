@@ -1,10 +1,28 @@
 import type { SQL } from 'bun';
+import {
+  InvalidCursorError,
+  InvalidSortError,
+  NotFoundError,
+  RowValidationError,
+  TooManyRowsError,
+} from '../errors';
 import {
   sql as bunSql,
-  resetConnection,
-  withSkippedSqlLogging,
+  type DbInstance,
+  type DbType,
+  getDbInstance,
+  getDbType,
 } from '../internal/internal-db';
-import { toCamelCase, toCamelCaseArray } from './case-converter';
+import { addSelectColumn } from '../internal/sql-renderer';
+import { runTransactional, type TransactionalOptions } from '../internal/transactional';
+import {
+  type CaseConvertOptions,
+  camelToSnake,
+  toCamelCase,
+  toCamelCaseArray,
+} from './case-converter';
+import { decodeCursor, encodeCursor } from './cursor';
+import type { StandardSchemaV1 } from './schema';
 
 // ============================================================
 // 타입 정의
@@ -23,6 +41,224 @@ export interface DbQueryOptions {
   logging?: boolean; // false일 경우 SQL 로깅 비활성화 (기본값: true)
 }
 
+/**
+ * 조회 결과 행 검증 옵션
+ * - camelCase 변환한 각 행(value/maybeValue/column은 값)을 schema로 검증하고 변환 결과를 반환
+ * - Standard Schema를 구현한 검증 라이브러리(zod, valibot 등) 또는 내장 schema 사용
+ * - 검증에 실패하면 RowValidationError
+ */
+export interface RowSchemaOptions<T> {
+  schema?: StandardSchemaV1<unknown, T>;
+}
+
+/**
+ * insertMany 옵션
+ */
+export interface InsertManyOptions {
+  /** 한 번에 INSERT할 최대 행 수 (기본값: 1000, 파라미터/패킷 한도에 맞게 자동으로 줄어듦) */
+  chunkSize?: number;
+  /** PostgreSQL에서 RETURNING으로 돌려받을 ID 컬럼 (기본값: 'id') */
+  idColumn?: string;
+  /** MySQL INSERT 문 하나의 최대 예상 크기 (bytes, 기본값: 4MB, max_allowed_packet보다 작게 지정) */
+  maxPacketBytes?: number;
+  /** false일 경우 SQL 로깅 비활성화 (기본값: true) */
+  logging?: boolean;
+}
+
+/**
+ * stream/streamBatches 옵션
+ */
+export interface StreamOptions {
+  /** 한 번에 가져올 행 수 (기본값: 1000) */
+  batchSize?: number;
+  /** MySQL 키셋 페이징에 사용할 컬럼 (결과 컬럼명, 값이 유일하고 오름차순 정렬 가능해야 함) */
+  keyColumn?: string;
+  /** false일 경우 SQL 로깅 비활성화 (기본값: true) */
+  logging?: boolean;
+}
+
+/**
+ * 정렬 방향
+ */
+export type SortDirection = 'ASC' | 'DESC';
+
+/**
+ * 키셋 페이지네이션 정렬 컬럼
+ */
+export interface CursorSortKey {
+  /** 정렬 컬럼 (테이블 별칭 포함 가능: 'u.created_at', 조회 결과에 같은 이름의 컬럼이 있어야 함) */
+  column: string;
+  /** 정렬 방향 (기본값: 'ASC') */
+  direction?: SortDirection;
+}
+
+/**
+ * sortBy() 허용 목록 (API 정렬 키 → 정렬 컬럼명)
+ * @example
+ * { createdAt: 'u.created_at', name: 'u.name' }
+ */
+export type SortWhitelist = Record<string, string>;
+
+/**
+ * 다중 컬럼 키셋 커서 페이지네이션 옵션
+ */
+export interface KeysetPaginateOptions {
+  /** 정렬 컬럼 목록 (문자열은 ASC, 마지막 컬럼은 유일한 값이어야 함: 예) id) */
+  sort: (string | CursorSortKey)[];
+  /** 이전 응답의 커서 토큰 (null이면 첫 페이지) */
+  cursor?: string | null;
+  /** 페이지 크기 (기본값: 10) */
+  limit?: number;
+}
+
+/**
+ * offset 페이징의 전체 행 수 계산 방식
+ * - separate: COUNT 쿼리를 따로 실행 (기본값, 정확)
+ * - window: SELECT 목록에 COUNT(*) OVER()를 추가해 데이터와 함께 한 번에 조회
+ *   (정확, WITH/DISTINCT/UNION 등 추가할 수 없는 쿼리는 separate로 조회)
+ * - estimate: 실행 계획의 예상 행 수 (PostgreSQL EXPLAIN, MySQL information_schema/EXPLAIN, 근사값)
+ * - none: 전체 행 수를 계산하지 않고 limit + 1개를 조회해 hasNext만 판단
+ */
+export type CountStrategy = 'separate' | 'window' | 'estimate' | 'none';
+
+/**
+ * offset 페이징의 전체 행 수 계산 옵션
+ */
+export interface PagingCountOptions {
+  /** 전체 행 수 계산 방식 (기본값: 'separate') */
+  countStrategy?: CountStrategy;
+  /** MySQL estimate에서 information_schema.TABLES의 TABLE_ROWS를 사용할 테이블 (없으면 EXPLAIN 예상 행 수) */
+  estimateTable?: string;
+}
+
+/**
+ * paginate 옵션
+ */
+export interface PaginateOptions extends PagingCountOptions {
+  /** 페이지 번호 (1부터, 기본값: 1) */
+  page?: number | string;
+  /** 페이지 크기 (기본값: 10, 0이면 전체 조회) */
+  row?: number | string;
+}
+
+/**
+ * offset 페이징 결과
+ * - totalRow: countStrategy가 'estimate'면 근사값 ('none'이면 totalRow 없이 반환)
+ */
+export interface PagingResult<T> {
+  data: T[];
+  totalRow: number;
+  /** 다음 페이지 존재 여부 */
+  hasNext: boolean;
+}
+
+/**
+ * bidirectionalCursorPaginate 공통 옵션
+ */
+export interface BidirectionalPaginateOptions {
+  /** 조회 방향 (기본값: 'next') */
+  direction?: 'next' | 'prev';
+  /** true면 전체 행 수(totalCount)를 함께 조회 */
+  totalCount?: boolean;
+}
+
+/**
+ * 페이지 정보 (Relay connection 스타일)
+ */
+export interface PageInfo<C> {
+  /** 현재 페이지 다음에 행이 있는지 여부 */
+  hasNextPage: boolean;
+  /** 현재 페이지 이전에 행이 있는지 여부 */
+  hasPreviousPage: boolean;
+  /** 현재 페이지 첫 행의 커서 */
+  startCursor: C | null;
+  /** 현재 페이지 마지막 행의 커서 */
+  endCursor: C | null;
+}
+
+/**
+ * bidirectionalCursorPaginate 결과
+ */
+export interface BidirectionalCursorPage<T, C> {
+  data: T[];
+  /** 다음 페이지 커서 (hasNextPage일 때 endCursor, 아니면 null) */
+  nextCursor: C | null;
+  /** 이전 페이지 커서 (hasPreviousPage일 때 startCursor, 아니면 null) */
+  prevCursor: C | null;
+  pageInfo: PageInfo<C>;
+  /** 전체 행 수 (totalCount 옵션 사용 시) */
+  totalCount?: number;
+}
+
+/**
+ * upsert 옵션
+ */
+export interface UpsertOptions {
+  /** 충돌을 판단할 컬럼 (PK 또는 UNIQUE 제약 조건의 컬럼, camelCase/snake_case 모두 가능) */
+  conflictColumns: string[];
+  /** 충돌 시 갱신할 컬럼 (기본값: conflictColumns를 제외한 모든 컬럼) */
+  updateColumns?: string[];
+  /** true면 충돌 시 갱신하지 않고 건너뜀 */
+  doNothing?: boolean;
+  /** 한 번에 실행할 최대 행 수 (기본값: 1000) */
+  chunkSize?: number;
+  /** false일 경우 SQL 로깅 비활성화 (기본값: true) */
+  logging?: boolean;
+}
+
+/**
+ * upsert 결과
+ * - inserted/updated: DB가 구분해서 알려주지 않는 경우 undefined
+ */
+export interface UpsertResult<T> {
+  /** INSERT 또는 UPDATE된 행 (camelCase 변환) */
+  rows: T[];
+  /** 새로 INSERT된 행 수 */
+  inserted: number | undefined;
+  /** 충돌로 UPDATE된 행 수 */
+  updated: number | undefined;
+}
+
+/**
+ * where() 연산자 조건 (여러 연산자를 지정하면 AND로 결합, undefined인 연산자는 무시)
+ * @example
+ * where({ age: { gte: 20, lt: 30 }, status: { in: ['active', 'pending'] } })
+ */
+export interface WhereOperators {
+  /** = (null이면 IS NULL) */
+  eq?: unknown;
+  /** <> (null이면 IS NOT NULL) */
+  ne?: unknown;
+  gt?: unknown;
+  gte?: unknown;
+  lt?: unknown;
+  lte?: unknown;
+  like?: string;
+  /** IN (빈 배열이면 항상 거짓) */
+  in?: readonly unknown[];
+  /** NOT IN (빈 배열이면 조건 없음) */
+  notIn?: readonly unknown[];
+  /** true면 IS NULL, false면 IS NOT NULL */
+  isNull?: boolean;
+}
+
+/**
+ * where() 조건 객체 (키는 camelCase → snake_case 컬럼명으로 변환)
+ * - undefined: 조건 제외
+ * - null: IS NULL
+ * - 배열: IN
+ * - WhereOperators 객체: 연산자 조건
+ * - 그 외 값 또는 SQL 조각: =
+ */
+export type WhereConditions = Record<string, unknown>;
+
+/**
+ * and() / or() / not() / whereClause()의 조건 (undefined, null, false, empty()는 무시)
+ * @example
+ * and(status && sql`status = ${status}`, minAge ? sql`age >= ${minAge}` : undefined)
+ */
+export type SqlCondition = Promise<Record<string, unknown>[]> | SQL | undefined | null | false;
+
 // ============================================================
 // 내부 헬퍼 함수
 // ============================================================
@@ -41,6 +277,375 @@ function getCamelColumn(column: string): string {
   return actualColumn.replace(/[_-]+(.)/g, (_, chr) => chr.toUpperCase());
 }
 
+/**
+ * 쿼리 결과의 ID 값을 number로 변환 (number, bigint, 숫자 문자열)
+ */
+function toNumericId(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string') {
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+// 바인딩 파라미터 최대 개수 (PostgreSQL, MySQL prepared statement 공통)
+const MAX_BIND_PARAMS = 65535;
+
+// insertMany 기본값
+const DEFAULT_INSERT_CHUNK_SIZE = 1000;
+const DEFAULT_MAX_PACKET_BYTES = 4 * 1024 * 1024;
+
+// INSERT 행에 없는 값 (INSERT 컬럼 목록에서 빼거나 DEFAULT로 렌더링하여 컬럼 기본값 사용)
+const DEFAULT_VALUE = Symbol('DEFAULT');
+
+/**
+ * 값 하나가 INSERT 문에서 차지하는 대략적인 크기 (bytes)
+ */
+function estimateValueBytes(value: unknown): number {
+  if (value === null || value === undefined) return 4;
+  if (typeof value === 'string') return Buffer.byteLength(value) + 2;
+  if (value instanceof Uint8Array) return value.byteLength * 2 + 3;
+  if (value instanceof Date) return 26;
+  if (typeof value === 'object') return Buffer.byteLength(JSON.stringify(value)) + 2;
+  return String(value).length;
+}
+
+/**
+ * camelCase 객체 배열을 snake_case 컬럼의 행으로 정규화합니다.
+ * - 모든 행의 키를 합쳐 컬럼 목록을 만들고, 없는 값(undefined)은 DEFAULT_VALUE로 채움
+ */
+function normalizeInsertRows(rows: Record<string, unknown>[]): {
+  columns: string[];
+  rows: Record<string, unknown>[];
+} {
+  const columnMap = new Map<string, string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columnMap.has(key)) {
+        columnMap.set(key, camelToSnake(key));
+      }
+    }
+  }
+
+  const normalized = rows.map((row) => {
+    const record: Record<string, unknown> = {};
+    for (const [key, column] of columnMap) {
+      record[column] = row[key] === undefined ? DEFAULT_VALUE : row[key];
+    }
+    return record;
+  });
+  return { columns: [...new Set(columnMap.values())], rows: normalized };
+}
+
+/**
+ * INSERT 청크 (columns: 청크의 모든 행에 값이 있는 컬럼)
+ */
+interface InsertChunk {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * INSERT 행을 청크로 나눕니다.
+ * - 청크당 행 수는 chunkSize와 바인딩 파라미터 한도(65535 / 컬럼 수) 중 작은 값
+ * - maxBytes가 있으면 청크의 예상 크기가 넘지 않도록 나눔 (MySQL max_allowed_packet)
+ * - 값이 있는 컬럼 구성이 바뀌면 새 청크 (없는 컬럼은 INSERT 컬럼 목록에서 빼서 DEFAULT 사용)
+ */
+function chunkInsertRows(
+  rows: Record<string, unknown>[],
+  columns: string[],
+  chunkSize: number,
+  maxBytes?: number,
+): InsertChunk[] {
+  const maxRows = Math.max(1, Math.min(chunkSize, Math.floor(MAX_BIND_PARAMS / columns.length)));
+  const chunks: InsertChunk[] = [];
+  let current: InsertChunk | undefined;
+  let currentBytes = 0;
+
+  for (const row of rows) {
+    const rowColumns = columns.filter((column) => row[column] !== DEFAULT_VALUE);
+    const rowBytes = maxBytes
+      ? rowColumns.reduce((sum, column) => sum + estimateValueBytes(row[column]) + 1, 2)
+      : 0;
+    const overflows = maxBytes !== undefined && currentBytes + rowBytes > maxBytes;
+    if (
+      !current ||
+      current.rows.length >= maxRows ||
+      overflows ||
+      current.columns.join() !== rowColumns.join()
+    ) {
+      current = { columns: rowColumns, rows: [] };
+      chunks.push(current);
+      currentBytes = 0;
+    }
+    current.rows.push(row);
+    currentBytes += rowBytes;
+  }
+  return chunks;
+}
+
+// window 카운트에서 전체 행 수를 돌려받는 컬럼 (camelCase 변환 전에 제거)
+const WINDOW_COUNT_COLUMN = '__paging_total_count';
+
+// stream 기본 배치 크기
+const DEFAULT_STREAM_BATCH_SIZE = 1000;
+
+// PostgreSQL 커서 이름 일련번호 (같은 트랜잭션 안의 여러 스트림 구분)
+let streamCursorSequence = 0;
+
+// PostgreSQL upsert에서 INSERT 여부를 돌려받는 컬럼 (xmax = 0이면 새로 INSERT된 행)
+const UPSERT_INSERTED_COLUMN = '__upsert_inserted';
+
+/**
+ * SQL 조각들을 구분자(기본값: ', ')로 이어 붙입니다.
+ */
+function joinSql(
+  dbSql: DbInstance['sql'],
+  fragments: (Promise<Record<string, unknown>[]> | SQL)[],
+  separator = ', ',
+): Promise<Record<string, unknown>[]> | SQL {
+  return fragments.reduce(
+    (joined, fragment) => dbSql`${joined}${dbSql.unsafe(separator)}${fragment}`,
+  );
+}
+
+// MySQL upsert에서 INSERT하려던 행을 참조하는 별칭 (INSERT ... AS new_row ON DUPLICATE KEY UPDATE)
+const UPSERT_ROW_ALIAS = 'new_row';
+
+/**
+ * INSERT 행 별칭(8.0.19+)을 지원하는 MySQL 서버인지 확인
+ * - VALUES(col) 참조는 8.0.20부터 deprecated, MariaDB는 행 별칭 미지원
+ */
+function supportsInsertRowAlias(version: string): boolean {
+  if (/mariadb/i.test(version)) {
+    return false;
+  }
+  const [major = 0, minor = 0, patch = 0] = version.split(/[.-]/).map(Number);
+  return major > 8 || (major === 8 && (minor > 0 || patch >= 19));
+}
+
+/**
+ * upsert 옵션의 컬럼명을 snake_case로 변환하고 INSERT 컬럼에 있는지 확인합니다.
+ */
+function resolveUpsertColumns(names: string[], columns: string[], optionName: string): string[] {
+  return names.map((name) => {
+    const column = camelToSnake(name);
+    if (!columns.includes(column)) {
+      throw new Error(`upsert: ${optionName}의 '${name}' 컬럼이 행에 없습니다.`);
+    }
+    return column;
+  });
+}
+
+/**
+ * 키셋 정렬 컬럼 목록을 검증하고 기본값을 채웁니다.
+ */
+function normalizeSortKeys(
+  sort: readonly (string | CursorSortKey)[],
+  caller = 'cursorPaginate',
+): Required<CursorSortKey>[] {
+  if (sort.length === 0) {
+    throw new Error(`${caller}: sort에 정렬 컬럼을 1개 이상 지정해주세요.`);
+  }
+  return sort.map((key) => {
+    const { column, direction = 'ASC' } = typeof key === 'string' ? { column: key } : key;
+    const normalized = direction.toUpperCase();
+    if (normalized !== 'ASC' && normalized !== 'DESC') {
+      throw new Error(`${caller}: 지원하지 않는 정렬 방향입니다: ${direction}`);
+    }
+    return { column, direction: normalized };
+  });
+}
+
+/**
+ * 식별자를 DB 타입에 맞게 인용합니다 (MySQL: `name`, PostgreSQL: "name").
+ * - 점으로 구분한 schema.table.column 지원 (각 부분을 따로 인용, 마지막 부분의 *는 그대로)
+ * - 인용 문자는 두 번 써서 이스케이프
+ */
+function quoteIdentifier(name: string, dbType: DbType): string {
+  const quote = dbType === 'mysql' ? '`' : '"';
+  const parts = name.split('.');
+  return parts
+    .map((part, index) => {
+      if (part === '*' && index === parts.length - 1) return part;
+      if (part.length === 0) {
+        throw new Error(`ident: 올바르지 않은 식별자입니다: '${name}'`);
+      }
+      return `${quote}${part.replaceAll(quote, quote + quote)}${quote}`;
+    })
+    .join('.');
+}
+
+/**
+ * 정렬 입력 토큰 형식: 'key', '-key', '+key', 'key:asc', 'key:desc'
+ */
+const SORT_TOKEN_PATTERN = /^([+-]?)([^\s:+-][^\s:]*)(?::(asc|desc))?$/i;
+
+/**
+ * 일반 객체 여부 (Date, Buffer, 배열, SQL 조각(Query 객체) 제외)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * where() 비교 연산자
+ */
+const WHERE_COMPARISON_OPERATORS: Record<string, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+};
+
+/**
+ * 조건 조합 헬퍼가 만든 조각의 종류
+ * - empty: empty()로 만든 빈 조각 (조합 시 제외)
+ * - true / false: 빈 and() / or() 그룹 (각각 AND / OR의 항등원이므로 조합 시 제외)
+ * - atomic: 괄호 없이 다른 조건과 결합해도 되는 조각
+ */
+type ConditionKind = 'empty' | 'true' | 'false' | 'atomic';
+
+const conditionKinds = new WeakMap<object, ConditionKind>();
+
+/**
+ * 조각에 조건 종류를 기록합니다.
+ */
+function tagCondition<T extends Promise<Record<string, unknown>[]> | SQL>(
+  fragment: T,
+  kind: ConditionKind,
+): T {
+  conditionKinds.set(fragment, kind);
+  return fragment;
+}
+
+/**
+ * 다른 조건과 결합할 수 있도록 괄호로 감쌉니다 (조합 헬퍼가 만든 조각은 그대로 사용).
+ */
+function wrapCondition(
+  condition: Promise<Record<string, unknown>[]> | SQL,
+): Promise<Record<string, unknown>[]> | SQL {
+  return conditionKinds.has(condition) ? condition : tagCondition(bunSql`(${condition})`, 'atomic');
+}
+
+/**
+ * 조건을 AND / OR로 결합합니다 (and, or 공통).
+ * - 무시할 조건과 항등원(AND의 TRUE, OR의 FALSE)을 제외하고, 남은 조건이 없으면 항등원 반환
+ */
+function combineConditions(
+  conditions: SqlCondition[],
+  operator: 'AND' | 'OR',
+): Promise<Record<string, unknown>[]> | SQL {
+  const identity = operator === 'AND' ? 'true' : 'false';
+  const operands = conditions.filter(
+    (condition): condition is Promise<Record<string, unknown>[]> | SQL => {
+      if (!condition) return false;
+      const kind = conditionKinds.get(condition);
+      return kind !== 'empty' && kind !== identity;
+    },
+  );
+
+  if (operands.length === 0) {
+    return tagCondition(operator === 'AND' ? bunSql`TRUE` : bunSql`FALSE`, identity);
+  }
+  if (operands.length === 1) {
+    return wrapCondition(operands[0] as Promise<Record<string, unknown>[]> | SQL);
+  }
+  const joined = joinSql(bunSql, operands.map(wrapCondition), ` ${operator} `);
+  return tagCondition(bunSql`(${joined})`, 'atomic');
+}
+
+/**
+ * IN / NOT IN 조건 조각 (빈 배열이면 IN은 항상 거짓, NOT IN은 항상 참)
+ */
+function inCondition(
+  column: string,
+  list: unknown,
+  negate: boolean,
+): Promise<Record<string, unknown>[]> | SQL {
+  if (!Array.isArray(list)) {
+    throw new Error(`where: '${column}'의 ${negate ? 'notIn' : 'in'} 값은 배열이어야 합니다.`);
+  }
+  if (list.length === 0) {
+    return negate ? tagCondition(bunSql`TRUE`, 'true') : tagCondition(bunSql`FALSE`, 'false');
+  }
+  const items = joinSql(
+    bunSql,
+    list.map((item) => bunSql`${item}`),
+  );
+  return negate
+    ? bunSql`${bunSql(column)} NOT IN (${items})`
+    : bunSql`${bunSql(column)} IN (${items})`;
+}
+
+/**
+ * where() 컬럼 하나의 조건 조각 목록
+ */
+function whereConditions(
+  column: string,
+  condition: unknown,
+): (Promise<Record<string, unknown>[]> | SQL)[] {
+  if (condition === undefined) return [];
+  if (condition === null) return [bunSql`${bunSql(column)} IS NULL`];
+  if (Array.isArray(condition)) return [inCondition(column, condition, false)];
+  if (!isPlainObject(condition)) return [bunSql`${bunSql(column)} = ${condition}`];
+
+  return Object.entries(condition).flatMap(([operator, value]) => {
+    if (value === undefined) return [];
+
+    const comparison = WHERE_COMPARISON_OPERATORS[operator];
+    if (comparison) {
+      return [bunSql`${bunSql(column)} ${bunSql.unsafe(comparison)} ${value}`];
+    }
+    switch (operator) {
+      case 'eq':
+        return [
+          value === null ? bunSql`${bunSql(column)} IS NULL` : bunSql`${bunSql(column)} = ${value}`,
+        ];
+      case 'ne':
+        return [
+          value === null
+            ? bunSql`${bunSql(column)} IS NOT NULL`
+            : bunSql`${bunSql(column)} <> ${value}`,
+        ];
+      case 'in':
+        return [inCondition(column, value, false)];
+      case 'notIn':
+        return [inCondition(column, value, true)];
+      case 'isNull':
+        return [value ? bunSql`${bunSql(column)} IS NULL` : bunSql`${bunSql(column)} IS NOT NULL`];
+      default:
+        throw new Error(`where: 지원하지 않는 연산자입니다: ${operator}`);
+    }
+  });
+}
+
+/**
+ * 조회 결과의 컬럼명 (테이블 별칭 제거)
+ */
+function getResultColumn(column: string): string {
+  return column.includes('.') ? column.split('.').pop() ?? column : column;
+}
+
+/**
+ * 커서로 사용할 정렬 컬럼 값
+ * - NULL은 비교 조건(<, >)으로 다음 페이지를 찾을 수 없으므로 InvalidSortError
+ */
+function requireCursorValue<V>(value: V | null | undefined, column: string): V {
+  if (value === null || value === undefined) {
+    throw new InvalidSortError(
+      column,
+      `정렬 컬럼 '${column}' 값이 NULL인 행이 있어 커서를 만들 수 없습니다. NOT NULL 컬럼으로 정렬하거나 COALESCE로 NULL을 대체하세요.`,
+    );
+  }
+  return value;
+}
+
 // ============================================================
 // SQL 템플릿 헬퍼 (템플릿 리터럴 조합용)
 // ============================================================
@@ -55,31 +660,153 @@ export const sql = bunSql;
  * 빈 SQL 조각 (조건부 조합용) - 지연 초기화
  */
 export function empty(): Promise<Record<string, unknown>[]> | SQL {
-  return bunSql``;
+  return tagCondition(bunSql``, 'empty');
+}
+
+/**
+ * 커서 조건 조각 생성 (cursorCondition, DbHelpers.cursorCondition 공통)
+ */
+function buildCursorCondition(
+  dbSql: DbInstance['sql'],
+  dbType: DbType,
+  column: string,
+  cursor: unknown,
+  isDesc: boolean,
+): Promise<Record<string, unknown>[]> | SQL {
+  const operator = isDesc ? '<' : '>';
+  return dbSql`AND ${dbSql.unsafe(quoteIdentifier(column, dbType))} ${dbSql.unsafe(operator)} ${cursor}`;
+}
+
+/**
+ * ORDER BY 조각 생성 (orderBy, DbHelpers.orderBy 공통, sort는 비어 있지 않아야 함)
+ */
+function buildOrderBy(
+  dbSql: DbInstance['sql'],
+  dbType: DbType,
+  sort: readonly CursorSortKey[],
+): Promise<Record<string, unknown>[]> | SQL {
+  const keys = normalizeSortKeys(sort, 'orderBy');
+  return dbSql`ORDER BY ${joinSql(
+    dbSql,
+    keys.map(
+      (key) =>
+        dbSql`${dbSql.unsafe(quoteIdentifier(key.column, dbType))} ${dbSql.unsafe(key.direction)}`,
+    ),
+  )}`;
 }
 
 /**
  * 커서 조건 조각 생성
+ * - 컬럼명은 ident()로 인용 (dbType 생략 시 기본 DB의 타입)
+ * - registerDb로 등록한 DB에서는 dbType을 지정하거나 handle.DB.cursorCondition() 사용
  */
 export function cursorCondition(
   column: string,
   cursor: unknown,
   isDesc: boolean,
+  dbType?: DbType,
 ): Promise<Record<string, unknown>[]> | SQL {
   if (cursor === null || cursor === undefined) return empty();
+  return buildCursorCondition(bunSql, dbType ?? getDbType(), column, cursor, isDesc);
+}
 
-  const operator = isDesc ? '<' : '>';
-  return bunSql`AND ${bunSql.unsafe(column)} ${bunSql.unsafe(operator)} ${cursor}`;
+/**
+ * 식별자(테이블/컬럼명) 조각 생성 (DB 타입에 맞게 인용)
+ * - MySQL: `name`, PostgreSQL: "name"
+ * - schema.table.column 지원 (각 부분을 따로 인용, 't.*'의 *는 그대로)
+ * - dbType 생략 시 기본 DB의 타입 (registerDb로 등록한 다른 타입의 DB는 dbType 지정 또는 handle.DB.ident() 사용)
+ * @example
+ * await sql`SELECT ${ident('u.created_at')} FROM ${ident('public.users')} u`;
+ * // PostgreSQL → SELECT "u"."created_at" FROM "public"."users" u
+ */
+export function ident(
+  name: string,
+  dbType: DbType = getDbType(),
+): Promise<Record<string, unknown>[]> | SQL {
+  return bunSql.unsafe(quoteIdentifier(name, dbType));
 }
 
 /**
  * ORDER BY 조각 생성
+ * - 컬럼명은 ident()로 인용, 정렬 방향은 ASC/DESC만 허용
+ * - 정렬 컬럼 목록(sortBy() 결과 등)을 받으면 순서대로 나열 (빈 목록이면 빈 조각)
+ * - dbType 생략 시 기본 DB의 타입 (registerDb로 등록한 다른 타입의 DB는 dbType 지정 또는 handle.DB.orderBy() 사용)
+ * @example
+ * orderBy('created_at', 'DESC');
+ * orderBy(sortBy(req.query.sort, { createdAt: 'created_at', name: 'name' }, '-createdAt'));
+ * orderBy('created_at', 'DESC', 'mysql');
  */
 export function orderBy(
   column: string,
-  direction: 'ASC' | 'DESC' = 'ASC',
+  direction?: SortDirection,
+  dbType?: DbType,
+): Promise<Record<string, unknown>[]> | SQL;
+export function orderBy(
+  sort: readonly CursorSortKey[],
+  dbType?: DbType,
+): Promise<Record<string, unknown>[]> | SQL;
+export function orderBy(
+  columnOrSort: string | readonly CursorSortKey[],
+  directionOrDbType?: SortDirection | DbType,
+  dbType?: DbType,
 ): Promise<Record<string, unknown>[]> | SQL {
-  return bunSql`ORDER BY ${bunSql.unsafe(column)} ${bunSql.unsafe(direction)}`;
+  const sort =
+    typeof columnOrSort === 'string'
+      ? [{ column: columnOrSort, direction: directionOrDbType as SortDirection | undefined }]
+      : columnOrSort;
+  if (sort.length === 0) return empty();
+
+  const type =
+    typeof columnOrSort === 'string' ? dbType : (directionOrDbType as DbType | undefined);
+  return buildOrderBy(bunSql, type ?? getDbType(), sort);
+}
+
+/**
+ * API 정렬 입력을 허용 목록(SortWhitelist)의 컬럼과 정렬 방향으로 변환합니다.
+ * - 입력 형식: 'createdAt', '-createdAt'(DESC), '+name'(ASC), 'createdAt:desc', 'name,-createdAt' 또는 배열
+ * - 허용 목록에 없는 키, 잘못된 형식, 중복된 키는 InvalidSortError
+ * - 입력이 비어 있으면 defaultSort(같은 형식)를 사용
+ * - 결과는 orderBy()나 cursorPaginate()의 sort 옵션에 그대로 사용
+ * @example
+ * const sort = sortBy(req.query.sort, { createdAt: 'u.created_at', name: 'u.name' }, '-createdAt');
+ * await DB.many(sql`SELECT * FROM users u ${orderBy(sort)}`);
+ * await DB.cursorPaginate(sql`SELECT * FROM users u WHERE 1=1`, {
+ *   sort: [...sort, { column: 'u.seq', direction: 'DESC' }],
+ *   cursor,
+ * });
+ */
+export function sortBy(
+  input: string | readonly string[] | null | undefined,
+  allowed: SortWhitelist,
+  defaultSort?: string | readonly string[],
+): Required<CursorSortKey>[] {
+  const tokens = [input ?? []]
+    .flat()
+    .flatMap((value) => value.split(','))
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0);
+  if (tokens.length === 0) {
+    return defaultSort === undefined ? [] : sortBy(defaultSort, allowed);
+  }
+
+  const seen = new Set<string>();
+  return tokens.map((token) => {
+    const match = SORT_TOKEN_PATTERN.exec(token);
+    const [, sign = '', key = '', suffix] = match ?? [];
+    if (!match || (sign && suffix)) {
+      throw new InvalidSortError(token, `정렬 형식이 올바르지 않습니다: ${token}`);
+    }
+    if (!Object.hasOwn(allowed, key)) {
+      throw new InvalidSortError(token, `허용되지 않은 정렬 키입니다: ${key}`);
+    }
+    if (seen.has(key)) {
+      throw new InvalidSortError(token, `중복된 정렬 키입니다: ${key}`);
+    }
+    seen.add(key);
+
+    const isDesc = sign === '-' || suffix?.toUpperCase() === 'DESC';
+    return { column: allowed[key] as string, direction: isDesc ? 'DESC' : 'ASC' };
+  });
 }
 
 /**
@@ -96,77 +823,536 @@ export function offset(n: number): Promise<Record<string, unknown>[]> | SQL {
   return bunSql`OFFSET ${n}`;
 }
 
-// ============================================================
-// DB 클래스 (Public API) - Bun SQL 전용
-// ============================================================
+/**
+ * UPDATE SET 조각 생성 (컬럼 = 값, ...)
+ * - 키는 camelCase → snake_case 컬럼명으로 변환, undefined 값은 제외
+ * - 값으로 SQL 조각 사용 가능 (예: sql`NOW()`)
+ * @example
+ * await sql`UPDATE users SET ${set({ name, email, updatedAt: sql`NOW()` })} WHERE seq = ${seq}`;
+ * // → UPDATE users SET "name" = $1, "email" = $2, "updated_at" = NOW() WHERE seq = $3
+ */
+export function set(row: Record<string, unknown>): Promise<Record<string, unknown>[]> | SQL {
+  const assignments = Object.entries(row)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => bunSql`${bunSql(camelToSnake(key))} = ${value}`);
+  if (assignments.length === 0) {
+    throw new Error('set: 변경할 컬럼이 없습니다. (모든 값이 undefined)');
+  }
+  return joinSql(bunSql, assignments);
+}
+
+/**
+ * INSERT 컬럼 목록과 VALUES 조각 생성 ((컬럼, ...) VALUES (값, ...), ...)
+ * - 키는 camelCase → snake_case 컬럼명으로 변환
+ * - 여러 행이면 모든 행의 키를 합쳐 컬럼 목록을 만들고, 없는 키(undefined)는 DEFAULT
+ * - 값으로 SQL 조각 사용 가능 (예: sql`NOW()`)
+ * @example
+ * await sql`INSERT INTO users ${values([{ name: 'Alice' }, { name: 'Bob', email }])}`;
+ * // → INSERT INTO users ("name", "email") VALUES ($1, DEFAULT), ($2, $3)
+ */
+export function values(
+  rows: Record<string, unknown> | Record<string, unknown>[],
+): Promise<Record<string, unknown>[]> | SQL {
+  const list = Array.isArray(rows) ? rows : [rows];
+  const { columns, rows: normalized } = normalizeInsertRows(list);
+  if (columns.length === 0) {
+    throw new Error('values: INSERT할 컬럼이 없습니다.');
+  }
+
+  const columnList = joinSql(
+    bunSql,
+    columns.map((column) => bunSql(column)),
+  );
+  const tuples = normalized.map(
+    (row) =>
+      bunSql`(${joinSql(
+        bunSql,
+        columns.map((column) =>
+          row[column] === DEFAULT_VALUE ? bunSql.unsafe('DEFAULT') : bunSql`${row[column]}`,
+        ),
+      )})`,
+  );
+  return bunSql`(${columnList}) VALUES ${joinSql(bunSql, tuples)}`;
+}
+
+/**
+ * WHERE 조건 조각 생성 (조건을 and()로 결합, 조건이 없으면 TRUE)
+ * - 키는 camelCase → snake_case 컬럼명으로 변환 (WhereConditions 참고)
+ * @example
+ * await sql`SELECT * FROM users WHERE ${where({
+ *   status: ['active', 'pending'],
+ *   age: { gte: minAge, lt: maxAge },
+ *   deletedAt: null,
+ *   name: keyword ? { like: `%${keyword}%` } : undefined,
+ * })}`;
+ * // → WHERE ("status" IN ($1, $2) AND "age" >= $3 AND "age" < $4 AND "deleted_at" IS NULL)
+ */
+export function where(conditions: WhereConditions): Promise<Record<string, unknown>[]> | SQL {
+  const fragments = Object.entries(conditions).flatMap(([key, condition]) =>
+    whereConditions(camelToSnake(key), condition),
+  );
+  // 컬럼 조건은 비교식 하나이므로 괄호 없이 결합
+  return and(
+    ...fragments.map((fragment) =>
+      conditionKinds.has(fragment) ? fragment : tagCondition(fragment, 'atomic'),
+    ),
+  );
+}
+
+/**
+ * 조건을 AND로 결합 (각 조건을 괄호로 감쌈)
+ * - undefined, null, false, empty()는 무시하고, 남은 조건이 없으면 TRUE
+ * @example
+ * const filter = and(
+ *   status ? sql`status = ${status}` : undefined,
+ *   or(sql`role = 'admin'`, sql`owner_seq = ${userSeq}`),
+ * );
+ * // → ((status = $1) AND ((role = 'admin') OR (owner_seq = $2)))
+ */
+export function and(...conditions: SqlCondition[]): Promise<Record<string, unknown>[]> | SQL {
+  return combineConditions(conditions, 'AND');
+}
+
+/**
+ * 조건을 OR로 결합 (각 조건을 괄호로 감쌈)
+ * - undefined, null, false, empty()는 무시하고, 남은 조건이 없으면 FALSE
+ */
+export function or(...conditions: SqlCondition[]): Promise<Record<string, unknown>[]> | SQL {
+  return combineConditions(conditions, 'OR');
+}
+
+/**
+ * 조건을 부정 (NOT (...))
+ * - undefined, null, false, empty()는 빈 조각 그대로 반환 (다른 조합 헬퍼에서 무시됨)
+ * - 빈 and() / or()는 각각 FALSE / TRUE
+ */
+export function not(condition: SqlCondition): Promise<Record<string, unknown>[]> | SQL {
+  if (!condition) return empty();
+
+  const kind = conditionKinds.get(condition);
+  if (kind === 'empty') return condition;
+  if (kind === 'true') return tagCondition(bunSql`FALSE`, 'false');
+  if (kind === 'false') return tagCondition(bunSql`TRUE`, 'true');
+  return tagCondition(bunSql`NOT (${condition})`, 'atomic');
+}
+
+/**
+ * WHERE 절 생성 (조건을 and()로 결합, 남은 조건이 없으면 WHERE 없이 빈 조각)
+ * - WHERE 1=1 없이 동적 필터를 선언적으로 구성
+ * @example
+ * await DB.many(sql`
+ *   SELECT * FROM users
+ *   ${whereClause(
+ *     status ? sql`status = ${status}` : undefined,
+ *     keyword ? or(sql`name LIKE ${`%${keyword}%`}`, sql`email LIKE ${`%${keyword}%`}`) : undefined,
+ *   )}
+ *   ORDER BY seq
+ * `);
+ * // 조건이 없으면 → SELECT * FROM users ORDER BY seq
+ */
+export function whereClause(
+  ...conditions: SqlCondition[]
+): Promise<Record<string, unknown>[]> | SQL {
+  const condition = and(...conditions);
+  return conditionKinds.get(condition) === 'true' ? empty() : bunSql`WHERE ${condition}`;
+}
+
+// ============================================================
+// DB 헬퍼 클래스 (Public API) - Bun SQL 전용
+// ============================================================
+
+/**
+ * MySQL/PostgreSQL 호환 DB 헬퍼 클래스 (Bun SQL 전용)
+ * - Bun SQL tagged template literal 지원
+ * - 쿼리 결과를 camelCase로 자동 변환
+ * - DB 인스턴스별로 생성 (기본 인스턴스는 DB, 등록한 DB는 registerDb()의 반환값 사용)
+ * - 복제본 설정 시 조회 메서드(many, maybeOne, one, value, count, paginate 등)는 복제본으로 라우팅
+ */
+export class DbHelpers {
+  constructor(private readonly db: DbInstance) {}
+
+  /**
+   * 인스턴스 설정에 맞춘 camelCase 변환 옵션
+   */
+  private caseOptions(): CaseConvertOptions {
+    return {
+      dbType: this.db.getDbType(),
+      dateStrings: this.db.isDateStringsEnabled(),
+    };
+  }
+
+  /**
+   * 조회 쿼리 실행 (복제본 설정 시 복제본으로 라우팅, 트랜잭션 내에서는 트랜잭션 연결)
+   */
+  private executeRead(
+    query: Promise<Record<string, unknown>[]> | SQL,
+  ): Promise<Record<string, unknown>[]> {
+    return executeQuery(this.db.routeRead(query));
+  }
+
+  /**
+   * 조회 쿼리를 실행하고 원본 행을 반환합니다 (logging: false면 SQL 로깅 비활성화).
+   */
+  private fetchRows(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions,
+  ): Promise<Record<string, unknown>[]> {
+    const executeFn = async () => {
+      const result = await this.executeRead(query);
+      return Array.isArray(result) ? result : [];
+    };
+
+    if (options?.logging === false) {
+      return this.db.withSkippedSqlLogging(executeFn);
+    }
+
+    return executeFn();
+  }
+
+  /**
+   * 최대 1개 행을 조회하고 camelCase로 변환합니다 (2개 이상이면 TooManyRowsError).
+   */
+  private async fetchSingleRow(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions,
+  ): Promise<Record<string, unknown> | undefined> {
+    const rows = await this.fetchRows(query, options);
+    if (rows.length > 1) {
+      throw new TooManyRowsError(rows.length);
+    }
+    const firstRow = rows[0];
+    return firstRow ? toCamelCase(firstRow, true, this.caseOptions()) : undefined;
+  }
+
+  /**
+   * schema가 있으면 각 행을 검증하고 변환 결과를 반환합니다 (실패 시 RowValidationError).
+   * - rowOffset: 스트림에서 앞서 반환한 행 수 (에러의 rowIndex에 더함)
+   */
+  private async validateRows<T>(
+    rows: unknown[],
+    schema: StandardSchemaV1<unknown, T> | undefined,
+    query: Promise<Record<string, unknown>[]> | SQL,
+    rowOffset = 0,
+  ): Promise<T[]> {
+    if (!schema) return rows as T[];
+
+    const validated: T[] = [];
+    for (const [index, row] of rows.entries()) {
+      let result = schema['~standard'].validate(row);
+      if (result instanceof Promise) result = await result;
+      if (result.issues) {
+        throw new RowValidationError(this.db.getSqlString(query), rowOffset + index, result.issues);
+      }
+      validated.push(result.value);
+    }
+    return validated;
+  }
+
+  /**
+   * 데이터베이스 연결 종료
+   */
+  close(): void {
+    this.db.reset();
+  }
+
+  /**
+   * 여러 행을 조회하고 camelCase로 변환합니다.
+   * @example
+   * const users = await DB.many(sql`SELECT * FROM users`);
+   * // 로깅 비활성화 (방법 1: 기존 방식)
+   * const users = await DB.many(sql`SELECT * FROM users`, { logging: false });
+   * // 로깅 비활성화 (방법 2: 체이닝 방식)
+   * const users = await DB.many(sql.silent`SELECT * FROM users`);
+   */
+  async many<T = any>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions & RowSchemaOptions<T>,
+  ): Promise<T[]> {
+    const executeFn = async () => {
+      const result = await this.executeRead(query);
+      if (!Array.isArray(result)) return [];
+      return this.validateRows(
+        toCamelCaseArray<T>(result, this.caseOptions()),
+        options?.schema,
+        query,
+      );
+    };
+
+    if (options?.logging === false) {
+      return this.db.withSkippedSqlLogging(executeFn);
+    }
+
+    return executeFn();
+  }
+
+  /**
+   * 단일 행을 조회하고 camelCase로 변환합니다.
+   * 결과가 없으면 undefined를 반환합니다.
+   * @example
+   * const user = await DB.maybeOne(sql`SELECT * FROM users WHERE id = ${id}`);
+   * // 로깅 비활성화 (방법 1: 기존 방식)
+   * const user = await DB.maybeOne(sql`SELECT * FROM users WHERE id = ${id}`, { logging: false });
+   * // 로깅 비활성화 (방법 2: 체이닝 방식)
+   * const user = await DB.maybeOne(sql.silent`SELECT * FROM users WHERE id = ${id}`);
+   */
+  async maybeOne<T = any>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions & RowSchemaOptions<T>,
+  ): Promise<T | undefined> {
+    const executeFn = async () => {
+      const result = await this.executeRead(query);
+      if (!Array.isArray(result) || result.length === 0) return undefined;
+      const firstRow = result[0];
+      if (!firstRow) return undefined;
+      const [row] = await this.validateRows(
+        [toCamelCase<T>(firstRow, true, this.caseOptions())],
+        options?.schema,
+        query,
+      );
+      return row;
+    };
+
+    if (options?.logging === false) {
+      return this.db.withSkippedSqlLogging(executeFn);
+    }
+
+    return executeFn();
+  }
+
+  /**
+   * 정확히 1개 행을 조회하고 camelCase로 변환합니다.
+   * - 결과가 없으면 NotFoundError, 2개 이상이면 TooManyRowsError
+   * @example
+   * const user = await DB.one<User>(sql`SELECT * FROM users WHERE id = ${id}`);
+   */
+  async one<T = any>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions & RowSchemaOptions<T>,
+  ): Promise<T> {
+    const row = await this.fetchSingleRow(query, options);
+    if (!row) {
+      throw new NotFoundError();
+    }
+    const [validated] = await this.validateRows([row], options?.schema, query);
+    return validated as T;
+  }
+
+  /**
+   * 최대 1개 행을 조회하고 camelCase로 변환합니다.
+   * - 결과가 없으면 undefined, 2개 이상이면 TooManyRowsError (maybeOne과 달리 행 수를 검사)
+   * @example
+   * const user = await DB.oneOrNone<User>(sql`SELECT * FROM users WHERE email = ${email}`);
+   */
+  async oneOrNone<T = any>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions & RowSchemaOptions<T>,
+  ): Promise<T | undefined> {
+    const row = await this.fetchSingleRow(query, options);
+    if (!row) return undefined;
+    const [validated] = await this.validateRows([row], options?.schema, query);
+    return validated;
+  }
+
+  /**
+   * 1개 행의 첫 번째 컬럼 값을 반환합니다.
+   * - 결과가 없으면 NotFoundError, 2개 이상이면 TooManyRowsError
+   * @example
+   * const name = await DB.value<string>(sql`SELECT name FROM users WHERE id = ${id}`);
+   */
+  async value<T = any>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions & RowSchemaOptions<T>,
+  ): Promise<T> {
+    const row = await this.fetchSingleRow(query, options);
+    if (!row) {
+      throw new NotFoundError();
+    }
+    const [validated] = await this.validateRows([Object.values(row)[0]], options?.schema, query);
+    return validated as T;
+  }
+
+  /**
+   * 최대 1개 행의 첫 번째 컬럼 값을 반환합니다.
+   * - 결과가 없으면 undefined, 2개 이상이면 TooManyRowsError
+   * @example
+   * const lastLogin = await DB.maybeValue<Date>(
+   *   sql`SELECT last_login_at FROM users WHERE id = ${id}`,
+   * );
+   */
+  async maybeValue<T = any>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions & RowSchemaOptions<T>,
+  ): Promise<T | undefined> {
+    const row = await this.fetchSingleRow(query, options);
+    if (!row) return undefined;
+    const [validated] = await this.validateRows([Object.values(row)[0]], options?.schema, query);
+    return validated;
+  }
+
+  /**
+   * 모든 행의 첫 번째 컬럼 값을 배열로 반환합니다.
+   * @example
+   * const emails = await DB.column<string>(sql`SELECT email FROM users WHERE status = 'active'`);
+   */
+  async column<T = any>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions & RowSchemaOptions<T>,
+  ): Promise<T[]> {
+    const rows = await this.fetchRows(query, options);
+    const values = toCamelCaseArray<Record<string, unknown>>(rows, this.caseOptions()).map(
+      (row) => Object.values(row)[0],
+    );
+    return this.validateRows(values, options?.schema, query);
+  }
 
-/**
- * MySQL/PostgreSQL 호환 DB 헬퍼 클래스 (Bun SQL 전용)
- * - Bun SQL tagged template literal 지원
- * - 쿼리 결과를 camelCase로 자동 변환
- * - DATABASE_URL에서 DB 타입 자동 감지
- */
-export class DB {
   /**
-   * 데이터베이스 연결 종료
+   * 쿼리 결과가 1개 행 이상인지 확인합니다 (SELECT EXISTS로 감싸서 실행).
+   * @example
+   * const taken = await DB.exists(sql`SELECT 1 FROM users WHERE email = ${email}`);
    */
-  static close(): void {
-    resetConnection();
+  async exists(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: DbQueryOptions,
+  ): Promise<boolean> {
+    const rows = await this.fetchRows(
+      this.db.sql`SELECT EXISTS (${query}) AS ${this.db.sql('result')}`,
+      options,
+    );
+    // PostgreSQL: boolean, MySQL: 0/1
+    return Boolean(Number(rows[0]?.result ?? 0));
   }
 
   /**
-   * 여러 행을 조회하고 camelCase로 변환합니다.
+   * 쿼리 결과의 행 수를 반환합니다 (SELECT COUNT(1)로 감싸서 실행).
    * @example
-   * const users = await DB.many(sql`SELECT * FROM users`);
-   * // 로깅 비활성화 (방법 1: 기존 방식)
-   * const users = await DB.many(sql`SELECT * FROM users`, { logging: false });
-   * // 로깅 비활성화 (방법 2: 체이닝 방식)
-   * const users = await DB.many(sql.silent`SELECT * FROM users`);
+   * const total = await DB.count(sql`SELECT * FROM users WHERE status = 'active'`);
    */
-  static async many<T = any>(
+  async count(
     query: Promise<Record<string, unknown>[]> | SQL,
     options?: DbQueryOptions,
-  ): Promise<T[]> {
-    const executeFn = async () => {
-      const result = await executeQuery(query);
-      if (!Array.isArray(result)) return [];
-      return toCamelCaseArray<T>(result);
-    };
+  ): Promise<number> {
+    const rows = await this.fetchRows(
+      this.db.sql`SELECT COUNT(1) as cnt FROM (${query}) as tab`,
+      options,
+    );
+    return Number(rows[0]?.cnt ?? 0);
+  }
 
-    if (options?.logging === false) {
-      return withSkippedSqlLogging(executeFn);
+  /**
+   * 조회 결과를 한 행씩 반환하는 비동기 이터레이터 (대용량 조회용)
+   * - 결과 전체를 메모리에 올리지 않고 batchSize 단위로 가져와 camelCase로 변환
+   * - 동작 방식은 streamBatches와 동일 (for await 중 break하면 연결 정리)
+   * @example
+   * for await (const user of DB.stream<User>(sql`SELECT * FROM users`, { batchSize: 500 })) {
+   *   await writer.write(user);
+   * }
+   */
+  async *stream<T = any>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options: StreamOptions & RowSchemaOptions<T> = {},
+  ): AsyncGenerator<T, void, undefined> {
+    for await (const batch of this.streamBatches<T>(query, options)) {
+      yield* batch;
     }
-
-    return executeFn();
   }
 
   /**
-   * 단일 행을 조회하고 camelCase로 변환합니다.
-   * 결과가 없으면 undefined를 반환합니다.
+   * 조회 결과를 batchSize 단위의 배열로 반환하는 비동기 이터레이터 (대용량 조회용)
+   * - PostgreSQL: 서버 측 커서 (DECLARE ... CURSOR / FETCH)
+   * - MySQL: keyColumn이 있으면 키셋 페이징, 없으면 LIMIT/OFFSET (쿼리에 ORDER BY 필요)
+   * - 현재 트랜잭션이 있으면 그 트랜잭션에서 실행 (복제본으로 라우팅하지 않음)
+   * - 트랜잭션이 없으면 연결 하나를 예약해 트랜잭션을 시작하고, 끝나거나 break하면 종료 후 반환
    * @example
-   * const user = await DB.maybeOne(sql`SELECT * FROM users WHERE id = ${id}`);
-   * // 로깅 비활성화 (방법 1: 기존 방식)
-   * const user = await DB.maybeOne(sql`SELECT * FROM users WHERE id = ${id}`, { logging: false });
-   * // 로깅 비활성화 (방법 2: 체이닝 방식)
-   * const user = await DB.maybeOne(sql.silent`SELECT * FROM users WHERE id = ${id}`);
+   * for await (const users of DB.streamBatches<User>(sql`SELECT * FROM users`)) {
+   *   await exportCsv(users);
+   * }
    */
-  static async maybeOne<T = any>(
+  async *streamBatches<T = any>(
     query: Promise<Record<string, unknown>[]> | SQL,
-    options?: DbQueryOptions,
-  ): Promise<T | undefined> {
-    const executeFn = async () => {
-      const result = await executeQuery(query);
-      if (!Array.isArray(result) || result.length === 0) return undefined;
-      const firstRow = result[0];
-      if (!firstRow) return undefined;
-      return toCamelCase<T>(firstRow);
+    options: StreamOptions & RowSchemaOptions<T> = {},
+  ): AsyncGenerator<T[], void, undefined> {
+    const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error(`stream: batchSize는 1 이상의 정수여야 합니다: ${batchSize}`);
+    }
+
+    const context = this.db.getContext();
+    const currentTx = this.db.getTx();
+    // 트랜잭션이 없으면 커서/스냅샷을 유지할 연결을 예약
+    const reserved = currentTx ? undefined : await this.db.getBaseSql().reserve();
+    const streamContext = {
+      ...context,
+      tx: currentTx ?? reserved,
+      skipSqlLogging: options.logging === false || context?.skipSqlLogging,
     };
+    // 예약한 연결(또는 현재 트랜잭션)에서 쿼리 생성 (sql 로깅 적용)
+    const onConnection = (
+      build: (dbSql: DbInstance['sql']) => Promise<Record<string, unknown>[]> | SQL,
+    ): Promise<Record<string, unknown>[]> =>
+      executeQuery(this.db.contextStorage.run(streamContext, () => build(this.db.sql)));
+
+    const isMySQL = this.db.getDbType() === 'mysql';
+    const caseOptions = this.caseOptions();
+    const cursorName = `bunqldb_cursor_${++streamCursorSequence}`;
+    let declared = false;
+    let failed = false;
+
+    try {
+      if (reserved) {
+        await onConnection((dbSql) => (isMySQL ? dbSql`START TRANSACTION` : dbSql`BEGIN`));
+      }
+      if (!isMySQL) {
+        await onConnection(
+          (dbSql) => dbSql`DECLARE ${dbSql(cursorName)} NO SCROLL CURSOR FOR ${query}`,
+        );
+        declared = true;
+      }
 
-    if (options?.logging === false) {
-      return withSkippedSqlLogging(executeFn);
+      let offsetValue = 0;
+      let lastKey: unknown;
+      while (true) {
+        const rows = await onConnection((dbSql) => {
+          if (!isMySQL) {
+            return dbSql`FETCH FORWARD ${dbSql.unsafe(String(batchSize))} FROM ${dbSql(cursorName)}`;
+          }
+          if (!options.keyColumn) {
+            return dbSql`${query} LIMIT ${batchSize} OFFSET ${offsetValue}`;
+          }
+          const key = dbSql(options.keyColumn);
+          const after = lastKey === undefined ? empty() : dbSql`WHERE ${key} > ${lastKey}`;
+          return dbSql`
+            SELECT * FROM (${query}) AS stream_tab ${after} ORDER BY ${key} LIMIT ${batchSize}
+          `;
+        });
+
+        if (rows.length > 0) {
+          const batch = await this.validateRows(
+            toCamelCaseArray<T>(rows, caseOptions),
+            options.schema,
+            query,
+            offsetValue,
+          );
+          offsetValue += rows.length;
+          lastKey = options.keyColumn ? rows[rows.length - 1]?.[options.keyColumn] : undefined;
+          yield batch;
+        }
+        if (rows.length < batchSize) break;
+      }
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      // 에러가 나면 트랜잭션이 중단된 상태이므로 커서를 닫지 않음 (롤백 시 함께 정리)
+      if (declared && !failed && !reserved) {
+        await onConnection((dbSql) => dbSql`CLOSE ${dbSql(cursorName)}`).catch(() => undefined);
+      }
+      if (reserved) {
+        await onConnection((dbSql) => (failed ? dbSql`ROLLBACK` : dbSql`COMMIT`)).catch(
+          () => undefined,
+        );
+        reserved.release();
+      }
     }
-
-    return executeFn();
   }
 
   /**
@@ -190,10 +1376,13 @@ export class DB {
    * // 로깅 비활성화 (방법 2: 체이닝 방식)
    * const id = await DB.insert(sql.silent`INSERT INTO users ...`);
    */
-  static async insert(
+  async insert(
     query: Promise<Record<string, unknown>[]> | SQL,
     options?: DbQueryOptions,
   ): Promise<number> {
+    // 쓰기 시각 기록 (read-your-writes, await 이전에 호출)
+    this.db.markWrite();
+
     const executeFn = async () => {
       const result = await query;
 
@@ -207,27 +1396,310 @@ export class DB {
 
       // PostgreSQL: RETURNING 결과 (배열)
       if (Array.isArray(result) && result.length > 0 && result[0]) {
-        const firstValue = Object.values(result[0])[0];
-
         // number, bigint, string(숫자형) 모두 처리
-        if (typeof firstValue === 'number') return firstValue;
-        if (typeof firstValue === 'bigint') return Number(firstValue);
-        if (typeof firstValue === 'string') {
-          const parsed = Number(firstValue);
-          return Number.isNaN(parsed) ? 0 : parsed;
-        }
+        return toNumericId(Object.values(result[0])[0]);
       }
 
       return 0;
     };
 
     if (options?.logging === false) {
-      return withSkippedSqlLogging(executeFn);
+      return this.db.withSkippedSqlLogging(executeFn);
     }
 
     return executeFn();
   }
 
+  /**
+   * 여러 행을 INSERT하고 생성된 ID 목록을 반환합니다.
+   * - camelCase 키를 snake_case 컬럼으로 변환 (행마다 키가 달라도 되며 없는 값은 컬럼 기본값 DEFAULT)
+   * - 바인딩 파라미터 한도(65535)와 MySQL 패킷 크기에 맞게 청크로 나누어 실행
+   * - 현재 트랜잭션이 있으면 참여하고, 청크가 여러 개면 하나의 트랜잭션으로 실행
+   * - PostgreSQL: RETURNING idColumn 결과, MySQL: lastInsertRowid부터 행 수만큼 연속된 ID
+   *   (MySQL은 auto_increment_increment = 1, 단순 INSERT의 연속 할당을 전제)
+   * @example
+   * const ids = await DB.insertMany('users', [
+   *   { userName: 'Alice', email: 'alice@example.com' },
+   *   { userName: 'Bob', email: 'bob@example.com' },
+   * ]);
+   *
+   * await DB.insertMany('events', rows, { chunkSize: 500, idColumn: 'seq' });
+   */
+  async insertMany(
+    table: string,
+    rows: Record<string, unknown>[],
+    options: InsertManyOptions = {},
+  ): Promise<number[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { columns, rows: normalized } = normalizeInsertRows(rows);
+    if (columns.length === 0) {
+      throw new Error('insertMany: INSERT할 컬럼이 없습니다.');
+    }
+
+    const isMySQL = this.db.getDbType() === 'mysql';
+    const chunks = chunkInsertRows(
+      normalized,
+      columns,
+      options.chunkSize ?? DEFAULT_INSERT_CHUNK_SIZE,
+      isMySQL ? (options.maxPacketBytes ?? DEFAULT_MAX_PACKET_BYTES) : undefined,
+    );
+    if (chunks.some((chunk) => chunk.columns.length === 0)) {
+      throw new Error('insertMany: 값이 모두 비어 있는 행이 있습니다.');
+    }
+    const idColumn = options.idColumn ?? 'id';
+
+    // 쓰기 시각 기록 (read-your-writes, await 이전에 호출)
+    this.db.markWrite();
+
+    const insertChunk = async (chunk: InsertChunk): Promise<number[]> => {
+      const dbSql = this.db.sql;
+      const insertValues = dbSql(chunk.rows, ...chunk.columns);
+      if (isMySQL) {
+        const result = (await dbSql`INSERT INTO ${dbSql(table)} ${insertValues}`) as unknown as {
+          lastInsertRowid?: number | bigint;
+        };
+        const firstId = toNumericId(result.lastInsertRowid);
+        return chunk.rows.map((_, index) => firstId + index);
+      }
+
+      const result = await dbSql`
+        INSERT INTO ${dbSql(table)} ${insertValues} RETURNING ${dbSql(idColumn)}
+      `;
+      return (result as Record<string, unknown>[]).map((row) => toNumericId(row[idColumn]));
+    };
+
+    const executeFn = async () => {
+      const ids: number[] = [];
+      for (const chunk of chunks) {
+        ids.push(...(await insertChunk(chunk)));
+      }
+      return ids;
+    };
+    const run = chunks.length > 1 ? () => this.transaction(executeFn) : executeFn;
+
+    if (options.logging === false) {
+      return this.db.withSkippedSqlLogging(run);
+    }
+
+    return run();
+  }
+
+  /**
+   * 행을 INSERT하고, 충돌하면 UPDATE(또는 무시)한 뒤 영향받은 행을 반환합니다.
+   * - PostgreSQL: ON CONFLICT (...) DO UPDATE SET col = EXCLUDED.col ... RETURNING *
+   * - MySQL: INSERT ... AS new_row ON DUPLICATE KEY UPDATE col = new_row.col, 이후 conflictColumns로 다시 조회
+   *   (8.0.19 미만과 MariaDB는 col = VALUES(col))
+   * - inserted/updated: PostgreSQL은 항상, MySQL은 단일 행이거나 doNothing일 때만 제공
+   * - camelCase 키를 snake_case 컬럼으로 변환 (없는 값은 DEFAULT, insertMany와 동일)
+   * - conflictColumns 값은 모든 행에 있어야 함
+   * @example
+   * const { rows, inserted, updated } = await DB.upsert<User>(
+   *   'users',
+   *   { email: 'alice@example.com', userName: 'Alice' },
+   *   { conflictColumns: ['email'] },
+   * );
+   *
+   * await DB.upsert('tags', tags, { conflictColumns: ['name'], doNothing: true });
+   */
+  async upsert<T = any>(
+    table: string,
+    rowOrRows: Record<string, unknown> | Record<string, unknown>[],
+    options: UpsertOptions,
+  ): Promise<UpsertResult<T>> {
+    const inputRows = Array.isArray(rowOrRows) ? rowOrRows : [rowOrRows];
+    if (inputRows.length === 0) {
+      return { rows: [], inserted: 0, updated: 0 };
+    }
+    if (options.conflictColumns.length === 0) {
+      throw new Error('upsert: conflictColumns를 지정해주세요.');
+    }
+
+    const { columns, rows: normalized } = normalizeInsertRows(inputRows);
+    const conflictColumns = resolveUpsertColumns(
+      options.conflictColumns,
+      columns,
+      'conflictColumns',
+    );
+    for (const row of normalized) {
+      const missing = conflictColumns.find((column) => row[column] === DEFAULT_VALUE);
+      if (missing) {
+        throw new Error(`upsert: conflictColumns의 '${missing}' 값이 없는 행이 있습니다.`);
+      }
+    }
+    const updateColumns = options.updateColumns
+      ? resolveUpsertColumns(options.updateColumns, columns, 'updateColumns')
+      : columns.filter((column) => !conflictColumns.includes(column));
+    // 갱신할 컬럼이 없으면 충돌 시 건너뜀
+    const doNothing = options.doNothing === true || updateColumns.length === 0;
+
+    const isMySQL = this.db.getDbType() === 'mysql';
+    const chunks = chunkInsertRows(
+      normalized,
+      columns,
+      options.chunkSize ?? DEFAULT_INSERT_CHUNK_SIZE,
+      isMySQL ? DEFAULT_MAX_PACKET_BYTES : undefined,
+    );
+
+    // 쓰기 시각 기록 (read-your-writes, await 이전에 호출)
+    this.db.markWrite();
+
+    const upsertChunk = (chunk: InsertChunk) => {
+      // 값이 없는 컬럼은 갱신하지 않음 (충돌한 행의 기존 값 유지)
+      const chunkUpdateColumns = updateColumns.filter((column) => chunk.columns.includes(column));
+      const chunkDoNothing = doNothing || chunkUpdateColumns.length === 0;
+      return isMySQL
+        ? this.upsertMySQLChunk(table, chunk, conflictColumns, chunkUpdateColumns, chunkDoNothing)
+        : this.upsertPostgresChunk(
+            table,
+            chunk,
+            conflictColumns,
+            chunkUpdateColumns,
+            chunkDoNothing,
+          );
+    };
+
+    const executeFn = async (): Promise<UpsertResult<T>> => {
+      const rows: Record<string, unknown>[] = [];
+      let inserted: number | undefined = 0;
+      let updated: number | undefined = 0;
+      for (const chunk of chunks) {
+        const result = await upsertChunk(chunk);
+        rows.push(...result.rows);
+        inserted =
+          inserted === undefined || result.inserted === undefined
+            ? undefined
+            : inserted + result.inserted;
+        updated =
+          updated === undefined || result.updated === undefined
+            ? undefined
+            : updated + result.updated;
+      }
+      return { rows: toCamelCaseArray<T>(rows, this.caseOptions()), inserted, updated };
+    };
+    // MySQL은 다시 조회하는 쿼리까지 같은 트랜잭션에서 실행
+    const run = chunks.length > 1 || isMySQL ? () => this.transaction(executeFn) : executeFn;
+
+    if (options.logging === false) {
+      return this.db.withSkippedSqlLogging(run);
+    }
+
+    return run();
+  }
+
+  /**
+   * PostgreSQL upsert (청크 하나)
+   * - RETURNING의 xmax = 0 여부로 INSERT/UPDATE를 구분
+   */
+  private async upsertPostgresChunk(
+    table: string,
+    chunk: InsertChunk,
+    conflictColumns: string[],
+    updateColumns: string[],
+    doNothing: boolean,
+  ): Promise<UpsertResult<Record<string, unknown>>> {
+    const dbSql = this.db.sql;
+    const insertValues = dbSql(chunk.rows, ...chunk.columns);
+    const conflictTarget = joinSql(
+      dbSql,
+      conflictColumns.map((column) => dbSql(column)),
+    );
+
+    if (doNothing) {
+      // 충돌한 행은 RETURNING에 포함되지 않음
+      const rows = (await dbSql`
+        INSERT INTO ${dbSql(table)} ${insertValues}
+        ON CONFLICT (${conflictTarget}) DO NOTHING
+        RETURNING *
+      `) as Record<string, unknown>[];
+      return { rows: [...rows], inserted: rows.length, updated: 0 };
+    }
+
+    const assignments = joinSql(
+      dbSql,
+      updateColumns.map((column) => dbSql`${dbSql(column)} = EXCLUDED.${dbSql(column)}`),
+    );
+    const result = (await dbSql`
+      INSERT INTO ${dbSql(table)} ${insertValues}
+      ON CONFLICT (${conflictTarget}) DO UPDATE SET ${assignments}
+      RETURNING *, (xmax = 0) AS ${dbSql(UPSERT_INSERTED_COLUMN)}
+    `) as Record<string, unknown>[];
+
+    let inserted = 0;
+    const rows = result.map(({ [UPSERT_INSERTED_COLUMN]: isInserted, ...row }) => {
+      if (isInserted) inserted++;
+      return row;
+    });
+    return { rows, inserted, updated: rows.length - inserted };
+  }
+
+  /**
+   * MySQL upsert (청크 하나)
+   * - RETURNING이 없으므로 conflictColumns로 다시 조회 (변경되지 않은 행도 포함)
+   * - affectedRows: INSERT 1, UPDATE 2, 변경 없음 0 → 단일 행이거나 doNothing일 때만 구분 가능
+   */
+  private async upsertMySQLChunk(
+    table: string,
+    chunk: InsertChunk,
+    conflictColumns: string[],
+    updateColumns: string[],
+    doNothing: boolean,
+  ): Promise<UpsertResult<Record<string, unknown>>> {
+    const dbSql = this.db.sql;
+    const insertValues = dbSql(chunk.rows, ...chunk.columns);
+    const rowAlias = supportsInsertRowAlias(await this.db.getServerVersion())
+      ? dbSql(UPSERT_ROW_ALIAS)
+      : undefined;
+    // doNothing: 충돌 시 자기 자신으로 갱신 (INSERT IGNORE와 달리 다른 에러는 무시하지 않음)
+    const assignments = doNothing
+      ? dbSql`${dbSql(conflictColumns[0])} = ${dbSql(conflictColumns[0])}`
+      : joinSql(
+          dbSql,
+          updateColumns.map((column) =>
+            rowAlias
+              ? dbSql`${dbSql(column)} = ${rowAlias}.${dbSql(column)}`
+              : dbSql`${dbSql(column)} = VALUES(${dbSql(column)})`,
+          ),
+        );
+    const result = (await dbSql`
+      INSERT INTO ${dbSql(table)} ${insertValues} ${rowAlias ? dbSql`AS ${rowAlias}` : empty()}
+      ON DUPLICATE KEY UPDATE ${assignments}
+    `) as unknown as { affectedRows?: number };
+    const affectedRows = result.affectedRows ?? 0;
+
+    const keyTuples = joinSql(
+      dbSql,
+      chunk.rows.map(
+        (row) =>
+          dbSql`(${joinSql(
+            dbSql,
+            conflictColumns.map((column) => dbSql`${row[column]}`),
+          )})`,
+      ),
+    );
+    const conflictTarget = joinSql(
+      dbSql,
+      conflictColumns.map((column) => dbSql(column)),
+    );
+    const rows = (await dbSql`
+      SELECT * FROM ${dbSql(table)} WHERE (${conflictTarget}) IN (${keyTuples})
+    `) as Record<string, unknown>[];
+
+    if (doNothing) {
+      return { rows: [...rows], inserted: affectedRows, updated: 0 };
+    }
+    if (chunk.rows.length === 1) {
+      return {
+        rows: [...rows],
+        inserted: affectedRows === 1 ? 1 : 0,
+        updated: affectedRows === 2 ? 1 : 0,
+      };
+    }
+    return { rows: [...rows], inserted: undefined, updated: undefined };
+  }
+
   /**
    * UPDATE 쿼리를 실행하고 영향받은 행 수를 반환합니다.
    * - MySQL: affectedRows 반환
@@ -239,10 +1711,13 @@ export class DB {
    * // 로깅 비활성화 (방법 2: 체이닝 방식)
    * const affected = await DB.update(sql.silent`UPDATE users ...`);
    */
-  static async update(
+  async update(
     query: Promise<Record<string, unknown>[]> | SQL,
     options?: DbQueryOptions,
   ): Promise<number> {
+    // 쓰기 시각 기록 (read-your-writes, await 이전에 호출)
+    this.db.markWrite();
+
     const executeFn = async () => {
       const result = (await query) as unknown as {
         affectedRows?: number;
@@ -259,7 +1734,7 @@ export class DB {
     };
 
     if (options?.logging === false) {
-      return withSkippedSqlLogging(executeFn);
+      return this.db.withSkippedSqlLogging(executeFn);
     }
 
     return executeFn();
@@ -276,10 +1751,13 @@ export class DB {
    * // 로깅 비활성화 (방법 2: 체이닝 방식)
    * const deleted = await DB.delete(sql.silent`DELETE FROM users ...`);
    */
-  static async delete(
+  async delete(
     query: Promise<Record<string, unknown>[]> | SQL,
     options?: DbQueryOptions,
   ): Promise<number> {
+    // 쓰기 시각 기록 (read-your-writes, await 이전에 호출)
+    this.db.markWrite();
+
     const executeFn = async () => {
       const result = (await query) as unknown as {
         affectedRows?: number;
@@ -296,12 +1774,79 @@ export class DB {
     };
 
     if (options?.logging === false) {
-      return withSkippedSqlLogging(executeFn);
+      return this.db.withSkippedSqlLogging(executeFn);
     }
 
     return executeFn();
   }
 
+  // ============================================================
+  // SQL 조각 (이 DB의 타입으로 식별자 인용)
+  // ============================================================
+
+  /**
+   * 이 DB의 타입에 맞게 인용한 식별자 조각 (ident()와 같고 dbType을 지정할 필요 없음)
+   * @example
+   * const billing = registerDb('billing', { url: 'mysql://...' });
+   * await billing.sql`SELECT ${billing.DB.ident('u.created_at')} FROM users u`;
+   * // MySQL → SELECT `u`.`created_at` FROM users u
+   */
+  ident(name: string): Promise<Record<string, unknown>[]> | SQL {
+    return this.db.sql.unsafe(quoteIdentifier(name, this.db.getDbType()));
+  }
+
+  /**
+   * 이 DB의 타입으로 컬럼명을 인용한 ORDER BY 조각 (orderBy()와 같은 인자)
+   * @example
+   * await billing.DB.many(billing.sql`SELECT * FROM invoices ${billing.DB.orderBy(sort)}`);
+   */
+  orderBy(column: string, direction?: SortDirection): Promise<Record<string, unknown>[]> | SQL;
+  orderBy(sort: readonly CursorSortKey[]): Promise<Record<string, unknown>[]> | SQL;
+  orderBy(
+    columnOrSort: string | readonly CursorSortKey[],
+    direction?: SortDirection,
+  ): Promise<Record<string, unknown>[]> | SQL {
+    const dbSql = this.db.sql;
+    const sort =
+      typeof columnOrSort === 'string' ? [{ column: columnOrSort, direction }] : columnOrSort;
+    if (sort.length === 0) return tagCondition(dbSql``, 'empty');
+    return buildOrderBy(dbSql, this.db.getDbType(), sort);
+  }
+
+  /**
+   * 이 DB의 타입으로 컬럼명을 인용한 커서 조건 조각 (cursorCondition()과 같은 인자)
+   */
+  cursorCondition(
+    column: string,
+    cursor: unknown,
+    isDesc: boolean,
+  ): Promise<Record<string, unknown>[]> | SQL {
+    const dbSql = this.db.sql;
+    if (cursor === null || cursor === undefined) return tagCondition(dbSql``, 'empty');
+    return buildCursorCondition(dbSql, this.db.getDbType(), column, cursor, isDesc);
+  }
+
+  // ============================================================
+  // 트랜잭션
+  // ============================================================
+
+  /**
+   * 함수를 트랜잭션 안에서 실행합니다. (@Transactional과 같은 전파/격리 수준/재시도/훅 동작)
+   * - 함수 안에서 실행하는 sql, DB 헬퍼는 모두 이 트랜잭션에 참여
+   * - 데코레이터를 쓸 수 없는 일반 함수, 라우트 핸들러, 스크립트에서 사용
+   * @example
+   * const seq = await DB.transaction(async () => {
+   *   const seq = await DB.insert(sql`INSERT INTO orders (user_id) VALUES (${userId}) RETURNING seq`);
+   *   await DB.update(sql`UPDATE items SET stock = stock - 1 WHERE id = ${itemId}`);
+   *   return seq;
+   * });
+   *
+   * await DB.transaction(async () => { ... }, { propagation: 'REQUIRES_NEW', retry: true });
+   */
+  transaction<T>(fn: () => Promise<T>, options: Omit<TransactionalOptions, 'db'> = {}): Promise<T> {
+    return runTransactional(this.db, options, fn);
+  }
+
   // ============================================================
   // 페이징 메서드 (기존 호환 - manyPaging/manyPagingParams)
   // ============================================================
@@ -311,28 +1856,37 @@ export class DB {
    * @example
    * const result = await DB.manyPaging<User>(10, 0, sql`SELECT * FROM users WHERE 1=1`);
    */
-  static async manyPaging<T = any>(
+  async manyPaging<T = any>(
     limit: number,
     start: number,
     query: Promise<Record<string, unknown>[]> | SQL,
-  ): Promise<{
-    data: T[];
-    totalRow: number;
-  }> {
+    options: PagingCountOptions & RowSchemaOptions<T> & { countStrategy: 'none' },
+  ): Promise<Omit<PagingResult<T>, 'totalRow'>>;
+  async manyPaging<T = any>(
+    limit: number,
+    start: number,
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: PagingCountOptions &
+      RowSchemaOptions<T> & { countStrategy?: Exclude<CountStrategy, 'none'> },
+  ): Promise<PagingResult<T>>;
+  async manyPaging<T = any>(
+    limit: number,
+    start: number,
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options?: PagingCountOptions & RowSchemaOptions<T>,
+  ): Promise<Omit<PagingResult<T>, 'totalRow'> & { totalRow?: number }>;
+  async manyPaging<T = any>(
+    limit: number,
+    start: number,
+    query: Promise<Record<string, unknown>[]> | SQL,
+    options: PagingCountOptions & RowSchemaOptions<T> = {},
+  ): Promise<Omit<PagingResult<T>, 'totalRow'> & { totalRow?: number }> {
     if (limit === undefined || limit === 0) limit = 10;
     if (start === undefined || start <= 0) start = 0;
 
-    // 카운트 쿼리
-    const countQuery = bunSql`SELECT COUNT(1) as cnt FROM (${query}) as tab`;
-    const countResult = (await countQuery) as Array<{ cnt: string | number }>;
-    const totalRow = Number(countResult[0]?.cnt ?? 0);
-
-    // 데이터 쿼리
-    const dataQuery = bunSql`${query} LIMIT ${limit} OFFSET ${start}`;
-    const dataResult = await executeQuery(dataQuery);
-    const data = toCamelCaseArray<T>(dataResult);
-
-    return { data, totalRow };
+    const result = await this.fetchPage<T>(query, limit, start, options);
+    result.data = await this.validateRows(result.data, options.schema, query);
+    return result;
   }
 
   /**
@@ -343,7 +1897,7 @@ export class DB {
    *   sql`SELECT * FROM users WHERE 1=1`
    * );
    */
-  static async manyPagingParams<T = any>(
+  async manyPagingParams<T = any>(
     params: { row?: number | string; page?: number | string },
     query: Promise<Record<string, unknown>[]> | SQL,
   ): Promise<{
@@ -356,12 +1910,12 @@ export class DB {
       params.page === undefined ||
       params.page === ''
     ) {
-      const data = await DB.many<T>(query);
+      const data = await this.many<T>(query);
       return { data, totalRow: data.length };
     }
 
     const start = (Number(params.page) - 1) * Number(params.row);
-    const paging = await DB.manyPaging<T>(Number(params.row), start, query);
+    const paging = await this.manyPaging<T>(Number(params.row), start, query);
 
     paging.data.forEach((item, index) => {
       (item as Record<string, unknown>).pagingIndex = paging.totalRow - start - index;
@@ -376,85 +1930,249 @@ export class DB {
 
   /**
    * offset 기반 페이지네이션
+   * - countStrategy로 전체 행 수 계산 방식 선택 (기본값: 'separate', CountStrategy 참고)
+   * - pagingIndex: 역순 번호 (totalRow - offset - index, countStrategy가 'none'이면 없음)
    * @example
    * const result = await DB.paginate<User>(
    *   sql`SELECT * FROM users WHERE status = ${'active'}`,
    *   { page: 1, row: 10 }
    * );
+   *
+   * // 한 번의 쿼리로 데이터와 전체 행 수 조회
+   * await DB.paginate<User>(sql`SELECT * FROM users ORDER BY seq`, {
+   *   page: 2,
+   *   countStrategy: 'window',
+   * });
    */
-  static async paginate<T = any>(
+  async paginate<T = any>(
     baseQuery: Promise<Record<string, unknown>[]> | SQL,
-    options: { page?: number | string; row?: number | string } = {},
-  ): Promise<{
-    data: T[];
-    totalRow: number;
-  }> {
+    options: PaginateOptions & RowSchemaOptions<T> & { countStrategy: 'none' },
+  ): Promise<Omit<PagingResult<T>, 'totalRow'>>;
+  async paginate<T = any>(
+    baseQuery: Promise<Record<string, unknown>[]> | SQL,
+    options?: PaginateOptions &
+      RowSchemaOptions<T> & { countStrategy?: Exclude<CountStrategy, 'none'> },
+  ): Promise<PagingResult<T>>;
+  async paginate<T = any>(
+    baseQuery: Promise<Record<string, unknown>[]> | SQL,
+    options?: PaginateOptions & RowSchemaOptions<T>,
+  ): Promise<Omit<PagingResult<T>, 'totalRow'> & { totalRow?: number }>;
+  async paginate<T = any>(
+    baseQuery: Promise<Record<string, unknown>[]> | SQL,
+    options: PaginateOptions & RowSchemaOptions<T> = {},
+  ): Promise<Omit<PagingResult<T>, 'totalRow'> & { totalRow?: number }> {
     const page = Number(options.page) || 1;
     const row =
       options.row !== undefined && options.row !== '' ? Number(options.row) : 10;
     const offsetValue = (page - 1) * row;
-
-    // 카운트 쿼리
-    const countQuery = bunSql`SELECT COUNT(1) as cnt FROM (${baseQuery}) as subquery`;
-    const countResult = (await countQuery) as Array<{ cnt: string | number }>;
-    const totalRow = Number(countResult[0]?.cnt ?? 0);
+    const countStrategy = options.countStrategy ?? 'separate';
 
     // 전체 조회 (row가 0이면)
     if (row === 0) {
-      const dataResult = await executeQuery(baseQuery);
-      return { data: toCamelCaseArray<T>(dataResult), totalRow };
+      // 기존 방식(separate)은 카운트 쿼리도 그대로 실행
+      const totalRow = countStrategy === 'separate' ? await this.count(baseQuery) : undefined;
+      const dataResult = await this.executeRead(baseQuery);
+      const data = await this.validateRows(
+        toCamelCaseArray<T>(dataResult, this.caseOptions()),
+        options.schema,
+        baseQuery,
+      );
+      return {
+        data,
+        hasNext: false,
+        ...(countStrategy !== 'none' && { totalRow: totalRow ?? data.length }),
+      };
     }
 
-    // 데이터 쿼리 (템플릿 리터럴 조합)
-    const dataQuery = bunSql`${baseQuery} LIMIT ${row} OFFSET ${offsetValue}`;
-    const dataResult = await executeQuery(dataQuery);
-    const data = toCamelCaseArray<T>(dataResult);
+    const result = await this.fetchPage<T>(baseQuery, row, offsetValue, options);
+    result.data = await this.validateRows(result.data, options.schema, baseQuery);
 
     // pagingIndex 추가
-    data.forEach((item, index) => {
-      (item as Record<string, unknown>).pagingIndex = totalRow - offsetValue - index;
-    });
+    const { totalRow } = result;
+    if (totalRow !== undefined) {
+      result.data.forEach((item, index) => {
+        (item as Record<string, unknown>).pagingIndex = totalRow - offsetValue - index;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * offset 페이지 조회 (manyPaging, paginate 공통)
+   * - countStrategy에 따라 전체 행 수 계산 (CountStrategy 참고)
+   */
+  private async fetchPage<T>(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    limitValue: number,
+    offsetValue: number,
+    options: PagingCountOptions,
+  ): Promise<Omit<PagingResult<T>, 'totalRow'> & { totalRow?: number }> {
+    const dbSql = this.db.sql;
+    const countStrategy = options.countStrategy ?? 'separate';
+
+    if (countStrategy === 'window') {
+      // 윈도우 함수는 LIMIT 전에 계산되므로 한 번의 쿼리로 전체 행 수 조회
+      // - 쿼리를 감싸면 ORDER BY가 보장되지 않으므로 SELECT 목록에 추가하고 LIMIT/OFFSET을 그대로 붙임
+      // - 추가할 수 없는 쿼리(WITH, DISTINCT, UNION 등)는 separate 방식으로 조회
+      const dbType = this.db.getDbType();
+      const countColumn = `COUNT(*) OVER() AS ${quoteIdentifier(WINDOW_COUNT_COLUMN, dbType)}`;
+      const windowQuery = addSelectColumn(query, countColumn, dbType, dbSql);
+      if (windowQuery) {
+        const dataQuery = dbSql`${windowQuery} LIMIT ${limitValue} OFFSET ${offsetValue}`;
+        const dataResult = await this.executeRead(dataQuery);
+        // 범위를 벗어난 페이지는 행이 없어 전체 행 수를 알 수 없으므로 따로 카운트
+        const totalRow =
+          dataResult.length === 0 && offsetValue > 0
+            ? await this.count(query)
+            : Number(dataResult[0]?.[WINDOW_COUNT_COLUMN] ?? 0);
+        const rows = dataResult.map(({ [WINDOW_COUNT_COLUMN]: _, ...row }) => row);
+        return {
+          data: toCamelCaseArray<T>(rows, this.caseOptions()),
+          totalRow,
+          hasNext: offsetValue + rows.length < totalRow,
+        };
+      }
+    }
+
+    if (countStrategy === 'estimate' || countStrategy === 'none') {
+      // limit + 1개를 조회해 다음 페이지 존재 여부 판단
+      const dataQuery = dbSql`${query} LIMIT ${limitValue + 1} OFFSET ${offsetValue}`;
+      const dataResult = await this.executeRead(dataQuery);
+      const hasNext = dataResult.length > limitValue;
+      const data = toCamelCaseArray<T>(dataResult.slice(0, limitValue), this.caseOptions());
+      if (countStrategy === 'none') {
+        return { data, hasNext };
+      }
+
+      // 예상 행 수가 실제로 확인한 행 수보다 작으면 확인한 행 수 사용
+      const estimated = await this.estimateRowCount(query, options.estimateTable);
+      const totalRow = Math.max(estimated, offsetValue + data.length + (hasNext ? 1 : 0));
+      return { data, totalRow, hasNext };
+    }
+
+    // 카운트 쿼리
+    const totalRow = await this.count(query);
+
+    // 데이터 쿼리
+    const dataQuery = dbSql`${query} LIMIT ${limitValue} OFFSET ${offsetValue}`;
+    const dataResult = await this.executeRead(dataQuery);
+    const data = toCamelCaseArray<T>(dataResult, this.caseOptions());
+
+    return { data, totalRow, hasNext: offsetValue + data.length < totalRow };
+  }
+
+  /**
+   * 쿼리의 예상 행 수 (countStrategy: 'estimate')
+   * - PostgreSQL: EXPLAIN (FORMAT JSON)의 Plan Rows
+   * - MySQL: estimateTable이 있으면 information_schema.TABLES의 TABLE_ROWS,
+   *   없으면 EXPLAIN 첫 번째 행의 rows × filtered
+   */
+  private async estimateRowCount(
+    query: Promise<Record<string, unknown>[]> | SQL,
+    estimateTable?: string,
+  ): Promise<number> {
+    const dbSql = this.db.sql;
+
+    if (this.db.getDbType() !== 'mysql') {
+      const [explain] = await this.executeRead(dbSql`EXPLAIN (FORMAT JSON) ${query}`);
+      const rawPlan = explain?.['QUERY PLAN'];
+      const plan = (typeof rawPlan === 'string' ? JSON.parse(rawPlan) : rawPlan) as
+        | Array<{ Plan?: { 'Plan Rows'?: number } }>
+        | undefined;
+      return Math.round(plan?.[0]?.Plan?.['Plan Rows'] ?? 0);
+    }
+
+    if (estimateTable) {
+      const [table] = await this.executeRead(dbSql`
+        SELECT TABLE_ROWS AS table_rows FROM information_schema.TABLES
+        WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ${estimateTable}
+      `);
+      return Number(table?.table_rows ?? 0);
+    }
 
-    return { data, totalRow };
+    const [explain] = await this.executeRead(dbSql`EXPLAIN ${query}`);
+    const rows = Number(explain?.rows ?? 0);
+    const filtered = Number(explain?.filtered ?? 100);
+    return Math.round((rows * filtered) / 100);
   }
 
   /**
    * 커서 기반 페이지네이션
+   * - sort: 다중 컬럼 키셋 페이지네이션, 커서는 서명된 토큰 (cursorSecret 필요)
+   * - cursorColumn: 단일 컬럼, 커서는 컬럼 값 그대로 (기존 방식)
    * @example
+   * const page = await DB.cursorPaginate<User>(sql`SELECT * FROM users WHERE status = ${'active'}`, {
+   *   sort: [
+   *     { column: 'created_at', direction: 'DESC' },
+   *     { column: 'seq', direction: 'DESC' },
+   *   ],
+   *   cursor: req.query.cursor,
+   *   limit: 10,
+   * });
+   *
    * const result = await DB.cursorPaginate<User>(
    *   sql`SELECT * FROM users WHERE status = ${'active'}`,
    *   { cursorColumn: 'user_seq', cursor: null, limit: 10, isDesc: true }
    * );
    */
-  static async cursorPaginate<T = any>(
+  async cursorPaginate<T = any>(
+    baseQuery: Promise<Record<string, unknown>[]> | SQL,
+    options: KeysetPaginateOptions & RowSchemaOptions<T>,
+  ): Promise<{ data: T[]; nextCursor: string | null }>;
+  async cursorPaginate<T = any>(
     baseQuery: Promise<Record<string, unknown>[]> | SQL,
     options: {
       cursorColumn: string;
       cursor: string | number | Date | null;
       limit?: number;
       isDesc?: boolean;
-    },
+    } & RowSchemaOptions<T>,
+  ): Promise<{
+    data: T[];
+    nextCursor: string | number | Date | null;
+  }>;
+  async cursorPaginate<T = any>(
+    baseQuery: Promise<Record<string, unknown>[]> | SQL,
+    options: (
+      | KeysetPaginateOptions
+      | {
+          cursorColumn: string;
+          cursor: string | number | Date | null;
+          limit?: number;
+          isDesc?: boolean;
+        }
+    ) &
+      RowSchemaOptions<T>,
   ): Promise<{
     data: T[];
     nextCursor: string | number | Date | null;
   }> {
+    if ('sort' in options) {
+      const page = await this.keysetPaginate<T>(baseQuery, options, false);
+      return {
+        data: await this.validateRows(page.data, options.schema, baseQuery),
+        nextCursor: page.hasMore ? page.lastCursor : null,
+      };
+    }
+
     const { cursorColumn, cursor, limit: limitValue = 10, isDesc = true } = options;
     const direction = isDesc ? 'DESC' : 'ASC';
     const operator = isDesc ? '<' : '>';
 
     // 템플릿 리터럴 조합으로 쿼리 구성
+    const dbSql = this.db.sql;
+    const column = dbSql.unsafe(quoteIdentifier(cursorColumn, this.db.getDbType()));
     let query = baseQuery;
 
     if (cursor !== null && cursor !== undefined) {
-      query = bunSql`${query} AND ${bunSql.unsafe(cursorColumn)} ${bunSql.unsafe(operator)} ${cursor}`;
+      query = dbSql`${query} AND ${column} ${dbSql.unsafe(operator)} ${cursor}`;
     }
 
-    query = bunSql`${query} ORDER BY ${bunSql.unsafe(cursorColumn)} ${bunSql.unsafe(direction)} LIMIT ${
-      limitValue + 1
-    }`;
+    query = dbSql`${query} ORDER BY ${column} ${dbSql.unsafe(direction)} LIMIT ${limitValue + 1}`;
 
-    const result = await executeQuery(query);
-    const items = toCamelCaseArray<T>(result);
+    const result = await this.executeRead(query);
+    const items = toCamelCaseArray<T>(result, this.caseOptions());
 
     // 다음 페이지 존재 여부 확인
     const hasNextPage = items.length > limitValue;
@@ -463,78 +2181,254 @@ export class DB {
     // 다음 커서 계산
     const camelColumn = getCamelColumn(cursorColumn);
     const nextCursor = hasNextPage
-      ? ((items[items.length - 1] as Record<string, unknown>)[camelColumn] as
-          | string
-          | number
-          | Date)
+      ? requireCursorValue(
+          (items[items.length - 1] as Record<string, unknown>)[camelColumn] as
+            | string
+            | number
+            | Date,
+          cursorColumn,
+        )
       : null;
 
-    return { data: items, nextCursor };
+    return { data: await this.validateRows(items, options.schema, baseQuery), nextCursor };
   }
 
   /**
-   * 양방향 커서 페이지네이션
+   * 양방향 커서 페이지네이션 (Relay connection 스타일 pageInfo 반환)
+   * - direction 'next': cursor 다음 페이지, 'prev': cursor 이전 페이지 (결과는 항상 기본 정렬 순서)
+   * - sort: 다중 컬럼 키셋 페이지네이션, 커서는 서명된 토큰 (cursorSecret 필요)
+   * - cursorColumn: 단일 컬럼, 커서는 컬럼 값 그대로 (isDesc로 기본 정렬 방향 지정, 기본값: DESC)
+   * - hasNextPage/hasPreviousPage: 조회한 방향은 다음 행 존재 여부, 반대 방향은 cursor 행을 포함한 반대쪽 행 존재 여부 (cursor가 있으면 EXISTS 쿼리 추가)
+   * - nextCursor/prevCursor: 해당 방향에 페이지가 있을 때의 endCursor/startCursor
+   * - totalCount: true면 전체 행 수를 함께 조회
+   * @example
+   * const page = await DB.bidirectionalCursorPaginate<User>(sql`SELECT * FROM users WHERE 1=1`, {
+   *   sort: [{ column: 'created_at', direction: 'DESC' }, { column: 'seq', direction: 'DESC' }],
+   *   cursor: req.query.before,
+   *   direction: 'prev',
+   *   totalCount: true,
+   * });
+   * // page.pageInfo: { hasNextPage, hasPreviousPage, startCursor, endCursor }
    */
-  static async bidirectionalCursorPaginate<T = any>(
+  async bidirectionalCursorPaginate<T = any>(
+    baseQuery: Promise<Record<string, unknown>[]> | SQL,
+    options: KeysetPaginateOptions & BidirectionalPaginateOptions & RowSchemaOptions<T>,
+  ): Promise<BidirectionalCursorPage<T, string>>;
+  async bidirectionalCursorPaginate<T = any>(
     baseQuery: Promise<Record<string, unknown>[]> | SQL,
     options: {
       cursorColumn: string;
       cursor: string | number | Date | null;
       limit?: number;
-      direction?: 'next' | 'prev';
-    },
+      isDesc?: boolean;
+    } & BidirectionalPaginateOptions &
+      RowSchemaOptions<T>,
+  ): Promise<BidirectionalCursorPage<T, string | number | Date>>;
+  async bidirectionalCursorPaginate<T = any>(
+    baseQuery: Promise<Record<string, unknown>[]> | SQL,
+    options: (
+      | (KeysetPaginateOptions & BidirectionalPaginateOptions)
+      | ({
+          cursorColumn: string;
+          cursor: string | number | Date | null;
+          limit?: number;
+          isDesc?: boolean;
+        } & BidirectionalPaginateOptions)
+    ) &
+      RowSchemaOptions<T>,
+  ): Promise<BidirectionalCursorPage<T, string | number | Date>> {
+    const isPrev = options.direction === 'prev';
+    const hasCursor = options.cursor !== null && options.cursor !== undefined;
+
+    let page: {
+      data: T[];
+      hasMore: boolean;
+      hasOpposite: boolean;
+      firstCursor: string | number | Date | null;
+      lastCursor: string | number | Date | null;
+    };
+    if ('sort' in options) {
+      page = await this.keysetPaginate<T>(baseQuery, options, isPrev, true);
+    } else {
+      const { cursorColumn, cursor, limit: limitValue = 10, isDesc: baseDesc = true } = options;
+      // prev는 기본 정렬을 뒤집어 조회
+      const isDesc = baseDesc !== isPrev;
+      const sqlDirection = isDesc ? 'DESC' : 'ASC';
+      const operator = isDesc ? '<' : '>';
+      // 반대 방향: cursor 행을 포함한 이전 행 (cursor 행은 이전 페이지의 마지막 행)
+      const oppositeOperator = isDesc ? '>=' : '<=';
+
+      // 템플릿 리터럴 조합으로 쿼리 구성
+      const dbSql = this.db.sql;
+      const column = dbSql.unsafe(quoteIdentifier(cursorColumn, this.db.getDbType()));
+      let query = baseQuery;
+
+      if (hasCursor) {
+        query = dbSql`${query} AND ${column} ${dbSql.unsafe(operator)} ${cursor}`;
+      }
+
+      query = dbSql`${query} ORDER BY ${column} ${dbSql.unsafe(sqlDirection)} LIMIT ${
+        limitValue + 1
+      }`;
+
+      const result = await this.executeRead(query);
+      let items = toCamelCaseArray<T>(result, this.caseOptions());
+
+      // 조회 방향의 다음 행 존재 여부 확인
+      const hasMore = items.length > limitValue;
+      if (hasMore) items.pop();
+
+      // prev는 결과를 뒤집어 기본 정렬 순서로 반환
+      if (isPrev) items = items.reverse();
+
+      // 커서 계산
+      const camelColumn = getCamelColumn(cursorColumn);
+      const cursorOf = (item: T | undefined) =>
+        item === undefined
+          ? null
+          : requireCursorValue(
+              (item as Record<string, unknown>)[camelColumn] as string | number | Date,
+              cursorColumn,
+            );
+
+      page = {
+        data: items,
+        hasMore,
+        hasOpposite:
+          hasCursor &&
+          (await this.exists(
+            dbSql`${baseQuery} AND ${column} ${dbSql.unsafe(oppositeOperator)} ${cursor}`,
+          )),
+        firstCursor: cursorOf(items[0]),
+        lastCursor: cursorOf(items[items.length - 1]),
+      };
+    }
+
+    const pageInfo: PageInfo<string | number | Date> = {
+      hasNextPage: isPrev ? page.hasOpposite : page.hasMore,
+      hasPreviousPage: isPrev ? page.hasMore : page.hasOpposite,
+      startCursor: page.firstCursor,
+      endCursor: page.lastCursor,
+    };
+
+    return {
+      data: await this.validateRows(page.data, options.schema, baseQuery),
+      nextCursor: pageInfo.hasNextPage ? pageInfo.endCursor : null,
+      prevCursor: pageInfo.hasPreviousPage ? pageInfo.startCursor : null,
+      pageInfo,
+      ...(options.totalCount && { totalCount: await this.count(baseQuery) }),
+    };
+  }
+
+  /**
+   * 다중 컬럼 키셋 페이지네이션 (cursorPaginate, bidirectionalCursorPaginate 공통)
+   * - PostgreSQL에서 정렬 방향이 모두 같으면 튜플 비교: (a, b) < (x, y)
+   * - 정렬 방향이 섞였거나 MySQL이면 펼친 OR 조건: a < x OR (a = x AND b < y)
+   * - reverse: 정렬을 뒤집어 커서 이전 페이지를 조회한 뒤 원래 순서로 반환
+   * - probeOpposite: 커서 반대쪽(커서 행 포함)에 행이 있는지 EXISTS로 확인 (hasOpposite)
+   */
+  private async keysetPaginate<T>(
+    baseQuery: Promise<Record<string, unknown>[]> | SQL,
+    options: KeysetPaginateOptions,
+    reverse: boolean,
+    probeOpposite = false,
   ): Promise<{
     data: T[];
-    nextCursor: string | number | Date | null;
-    prevCursor: string | number | Date | null;
+    hasMore: boolean;
+    hasOpposite: boolean;
+    firstCursor: string | null;
+    lastCursor: string | null;
   }> {
-    const {
-      cursorColumn,
-      cursor,
-      limit: limitValue = 10,
-      direction: dir = 'next',
-    } = options;
-    const isDesc = dir === 'next';
-    const sqlDirection = isDesc ? 'DESC' : 'ASC';
-    const operator = isDesc ? '<' : '>';
+    const { cursor, limit: limitValue = 10 } = options;
+    const keys = normalizeSortKeys(options.sort);
+    const sortKey = keys.map((key) => `${key.column} ${key.direction}`).join(',');
+    const secret = this.db.getCursorSecret();
+    const values = cursor ? decodeCursor(cursor, sortKey, secret) : undefined;
+    if (values && values.length !== keys.length) {
+      throw new InvalidCursorError('커서 값의 개수가 정렬 컬럼 수와 다릅니다.');
+    }
 
-    // 템플릿 리터럴 조합으로 쿼리 구성
+    const dbSql = this.db.sql;
+    const dbType = this.db.getDbType();
+    const columnOf = (key: CursorSortKey) => dbSql.unsafe(quoteIdentifier(key.column, dbType));
+    const isDescending = (key: Required<CursorSortKey>) => (key.direction === 'DESC') !== reverse;
+    const operatorOf = (key: Required<CursorSortKey>) =>
+      dbSql.unsafe(isDescending(key) ? '<' : '>');
     let query = baseQuery;
-
-    if (cursor !== null && cursor !== undefined) {
-      query = bunSql`${query} AND ${bunSql.unsafe(cursorColumn)} ${bunSql.unsafe(operator)} ${cursor}`;
+    let oppositeQuery: Promise<Record<string, unknown>[]> | undefined;
+
+    if (values) {
+      const [firstKey] = keys;
+      const useTuple =
+        dbType !== 'mysql' && keys.every((key) => key.direction === firstKey?.direction);
+
+      const condition = useTuple
+        ? dbSql`(${joinSql(
+            dbSql,
+            keys.map(columnOf),
+          )}) ${operatorOf(keys[0] as Required<CursorSortKey>)} (${joinSql(
+            dbSql,
+            values.map((value) => dbSql`${value}`),
+          )})`
+        : joinSql(
+            dbSql,
+            keys.map((key, index) => {
+              const equals = keys
+                .slice(0, index)
+                .map((prev, prevIndex) => dbSql`${columnOf(prev)} = ${values[prevIndex]}`);
+              const comparison = dbSql`${columnOf(key)} ${operatorOf(key)} ${values[index]}`;
+              return dbSql`(${joinSql(dbSql, [...equals, comparison], ' AND ')})`;
+            }),
+            ' OR ',
+          );
+      query = dbSql`${query} AND (${condition})`;
+      // 정렬 컬럼에 NULL이 없으므로 NOT은 커서 행을 포함한 반대쪽 행
+      oppositeQuery = dbSql`${baseQuery} AND NOT (${condition})`;
     }
 
-    query = bunSql`${query} ORDER BY ${bunSql.unsafe(cursorColumn)} ${bunSql.unsafe(sqlDirection)} LIMIT ${
-      limitValue + 1
-    }`;
+    const order = joinSql(
+      dbSql,
+      keys.map(
+        (key) => dbSql`${columnOf(key)} ${dbSql.unsafe(isDescending(key) ? 'DESC' : 'ASC')}`,
+      ),
+    );
+    query = dbSql`${query} ORDER BY ${order} LIMIT ${limitValue + 1}`;
 
-    const result = await executeQuery(query);
-    let items = toCamelCaseArray<T>(result);
+    const result = await this.executeRead(query);
 
     // 다음 페이지 존재 여부 확인
-    const hasMore = items.length > limitValue;
-    if (hasMore) items.pop();
-
-    // direction이 'prev'인 경우 결과를 뒤집어서 반환
-    if (dir === 'prev') items = items.reverse();
-
-    // 커서 계산
-    const camelColumn = getCamelColumn(cursorColumn);
-
-    const nextCursor =
-      hasMore && dir === 'next'
-        ? ((items[items.length - 1] as Record<string, unknown>)[camelColumn] as
-            | string
-            | number
-            | Date)
-        : null;
-
-    const prevCursor =
-      items.length > 0 && dir === 'prev'
-        ? ((items[0] as Record<string, unknown>)[camelColumn] as string | number | Date)
-        : null;
+    const hasMore = result.length > limitValue;
+    const rows = result.slice(0, limitValue);
+    if (reverse) rows.reverse();
+
+    // 커서는 변환 전 원본 값으로 생성 (Date, bigint 유지)
+    const cursorOf = (row: Record<string, unknown> | undefined): string | null => {
+      if (!row) return null;
+      const rowValues = keys.map((key) => {
+        const column = getResultColumn(key.column);
+        if (!(column in row)) {
+          throw new InvalidSortError(
+            key.column,
+            `조회 결과에 정렬 컬럼 '${column}'이 없습니다. SELECT 목록에 정렬 컬럼을 포함하세요.`,
+          );
+        }
+        return requireCursorValue(row[column], key.column);
+      });
+      return encodeCursor(rowValues, sortKey, secret);
+    };
 
-    return { data: items, nextCursor, prevCursor };
+    return {
+      data: toCamelCaseArray<T>(rows, this.caseOptions()),
+      hasMore,
+      hasOpposite:
+        probeOpposite && oppositeQuery !== undefined && (await this.exists(oppositeQuery)),
+      firstCursor: cursorOf(rows[0]),
+      lastCursor: cursorOf(rows[rows.length - 1]),
+    };
   }
 }
+
+/**
+ * 기본 DB 인스턴스(환경변수 기반)에 바인딩된 헬퍼
+ */
+export const DB = new DbHelpers(getDbInstance());
@@ -0,0 +1,246 @@
+// ============================================================
+// 행 검증 스키마
+// - Standard Schema(https://standardschema.dev) 호환 인터페이스
+//   (zod, valibot, arktype 등 Standard Schema를 구현한 검증 라이브러리를 그대로 사용 가능)
+// - 외부 라이브러리 없이 쓸 수 있는 작은 내장 스키마 (schema.object, schema.number 등)
+// ============================================================
+
+/**
+ * Standard Schema 경로 세그먼트
+ */
+export interface StandardSchemaPathSegment {
+  readonly key: PropertyKey;
+}
+
+/**
+ * Standard Schema 검증 이슈
+ */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaPathSegment>;
+}
+
+/**
+ * Standard Schema 검증 결과
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Standard Schema v1 인터페이스
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/**
+ * 스키마의 검증 결과 타입
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
+/**
+ * 이슈 경로를 문자열로 변환합니다. (예: items[0].name)
+ */
+export function formatIssuePath(path: StandardSchemaIssue["path"]): string {
+  return (path ?? []).reduce<string>((formatted, segment) => {
+    const key = typeof segment === "object" ? segment.key : segment;
+    if (typeof key === "number") return `${formatted}[${key}]`;
+    return formatted ? `${formatted}.${String(key)}` : String(key);
+  }, "");
+}
+
+// ============================================================
+// 내장 스키마
+// ============================================================
+
+type ParseResult<T> = { value: T; issues?: undefined } | { issues: StandardSchemaIssue[] };
+type Parser<T> = (value: unknown, path: PropertyKey[]) => ParseResult<T>;
+
+/**
+ * 내장 스키마 (Standard Schema 구현)
+ */
+export interface RowSchema<T> extends StandardSchemaV1<unknown, T> {
+  /** NULL 허용 */
+  nullable(): RowSchema<T | null>;
+  /** 값이 없는 경우(undefined) 허용 */
+  optional(): RowSchema<T | undefined>;
+}
+
+function createSchema<T>(parse: Parser<T>): RowSchema<T> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "bunqldb",
+      validate: (value) => parse(value, []),
+    },
+    nullable: () =>
+      createSchema<T | null>((value, path) =>
+        value === null ? { value: null } : parse(value, path),
+      ),
+    optional: () =>
+      createSchema<T | undefined>((value, path) =>
+        value === undefined ? { value: undefined } : parse(value, path),
+      ),
+  };
+}
+
+function fail(message: string, path: PropertyKey[]): { issues: StandardSchemaIssue[] } {
+  return { issues: [{ message, path }] };
+}
+
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+
+/**
+ * 문자열
+ */
+function string(): RowSchema<string> {
+  return createSchema((value, path) =>
+    typeof value === "string" ? { value } : fail("문자열이어야 합니다.", path),
+  );
+}
+
+/**
+ * 숫자 (bigint, 숫자 문자열은 number로 변환: DECIMAL, COUNT 결과 등)
+ */
+function number(): RowSchema<number> {
+  return createSchema((value, path) => {
+    if (typeof value === "number" && !Number.isNaN(value)) return { value };
+    if (typeof value === "bigint") return { value: Number(value) };
+    if (typeof value === "string" && NUMERIC_PATTERN.test(value.trim())) {
+      return { value: Number(value) };
+    }
+    return fail("숫자여야 합니다.", path);
+  });
+}
+
+/**
+ * 정수 (bigint)
+ * - number, 정수 문자열은 bigint로 변환 (PostgreSQL BIGINT 등)
+ */
+function bigint(): RowSchema<bigint> {
+  return createSchema((value, path) => {
+    if (typeof value === "bigint") return { value };
+    if (typeof value === "number" && Number.isInteger(value)) return { value: BigInt(value) };
+    if (typeof value === "string" && INTEGER_PATTERN.test(value.trim())) {
+      return { value: BigInt(value.trim()) };
+    }
+    return fail("정수여야 합니다.", path);
+  });
+}
+
+/**
+ * 불리언 (MySQL TINYINT(1)의 0/1도 변환)
+ */
+function boolean(): RowSchema<boolean> {
+  return createSchema((value, path) => {
+    if (typeof value === "boolean") return { value };
+    if (value === 0 || value === 1) return { value: value === 1 };
+    if (value === "0" || value === "1") return { value: value === "1" };
+    return fail("불리언이어야 합니다.", path);
+  });
+}
+
+/**
+ * 날짜 (dateStrings 사용 시의 날짜 문자열도 Date로 변환)
+ */
+function date(): RowSchema<Date> {
+  return createSchema((value, path) => {
+    const parsed =
+      value instanceof Date ? value : typeof value === "string" ? new Date(value) : undefined;
+    if (parsed && !Number.isNaN(parsed.getTime())) return { value: parsed };
+    return fail("날짜여야 합니다.", path);
+  });
+}
+
+/**
+ * 검증하지 않음 (JSON 컬럼 등)
+ */
+function unknown(): RowSchema<unknown> {
+  return createSchema((value) => ({ value }));
+}
+
+/**
+ * 배열 (각 요소를 item 스키마로 검증)
+ */
+function array<T>(item: RowSchema<T>): RowSchema<T[]> {
+  return createSchema((value, path) => {
+    if (!Array.isArray(value)) return fail("배열이어야 합니다.", path);
+
+    const issues: StandardSchemaIssue[] = [];
+    const result: T[] = [];
+    value.forEach((element, index) => {
+      const parsed = parseWith(item, element, [...path, index]);
+      if (parsed.issues) issues.push(...parsed.issues);
+      else result.push(parsed.value);
+    });
+    return issues.length > 0 ? { issues } : { value: result };
+  });
+}
+
+/**
+ * 객체 (shape에 지정한 키만 검증, 나머지 키는 그대로 유지)
+ */
+function object<S extends Record<string, RowSchema<unknown>>>(
+  shape: S,
+): RowSchema<{ [K in keyof S]: InferSchemaOutput<S[K]> }> {
+  return createSchema((value, path) => {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      return fail("객체여야 합니다.", path);
+    }
+
+    const issues: StandardSchemaIssue[] = [];
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, field] of Object.entries(shape)) {
+      const parsed = parseWith(field, (value as Record<string, unknown>)[key], [...path, key]);
+      if (parsed.issues) issues.push(...parsed.issues);
+      else result[key] = parsed.value;
+    }
+    return issues.length > 0
+      ? { issues }
+      : { value: result as { [K in keyof S]: InferSchemaOutput<S[K]> } };
+  });
+}
+
+/**
+ * 내장 스키마를 경로와 함께 검증 (중첩 스키마용)
+ */
+function parseWith<T>(schema: RowSchema<T>, value: unknown, path: PropertyKey[]): ParseResult<T> {
+  const result = schema["~standard"].validate(value) as ParseResult<T>;
+  if (!result.issues) return result;
+  return {
+    issues: result.issues.map((issue) => ({ ...issue, path: [...path, ...(issue.path ?? [])] })),
+  };
+}
+
+/**
+ * 내장 스키마 생성 함수
+ * @example
+ * const userSchema = schema.object({
+ *   seq: schema.number(),
+ *   name: schema.string(),
+ *   email: schema.string().nullable(),
+ *   createdAt: schema.date(),
+ * });
+ * const users = await DB.many(sql`SELECT * FROM users`, { schema: userSchema });
+ */
+export const schema = {
+  string,
+  number,
+  bigint,
+  boolean,
+  date,
+  unknown,
+  array,
+  object,
+};
@@ -1,10 +1,24 @@
 // Public API
 
 // Types
-export type { DbConfig, SqlLogger, SqlLoggingOptions } from "./types";
+export type {
+  DbConfig,
+  DbConnectionConfig,
+  DbRegistrationConfig,
+  DbReplicaConnectionConfig,
+  ReplicaStrategy,
+  SqlLogger,
+  SqlLoggingOptions,
+  SqlQueryEvent,
+  SqlQueryFormatter,
+  SqlRedactionContext,
+  SqlRedactionOptions,
+} from "./types";
 
 // Case converter helpers
 export {
+  type CaseConvertOptions,
+  camelToSnake,
   snakeToCamel,
   toCamelCase,
   toCamelCaseArray,
@@ -12,16 +26,54 @@ export {
 
 // DB helpers
 export {
+  and,
+  type BidirectionalCursorPage,
+  type BidirectionalPaginateOptions,
+  type CountStrategy,
+  type CursorSortKey,
   cursorCondition,
   DB,
+  type DbHelpers,
   /** @deprecated sql.silent 체이닝 사용을 권장합니다. */
   type DbQueryOptions,
   empty,
+  ident,
+  type InsertManyOptions,
+  type KeysetPaginateOptions,
   limit,
+  not,
   offset,
+  or,
   orderBy,
+  type PageInfo,
+  type PaginateOptions,
+  type PagingCountOptions,
+  type PagingResult,
+  type RowSchemaOptions,
+  set,
+  sortBy,
+  type SortDirection,
+  type SortWhitelist,
+  type SqlCondition,
+  type StreamOptions,
+  type UpsertOptions,
+  type UpsertResult,
+  values,
+  type WhereConditions,
+  type WhereOperators,
+  where,
+  whereClause,
 } from "./helpers/db-helpers";
 
+// Row validation schema
+export {
+  type InferSchemaOutput,
+  type RowSchema,
+  type StandardSchemaIssue,
+  type StandardSchemaV1,
+  schema,
+} from "./helpers/schema";
+
 // Internal DB (public exports only)
 export type { DbType, ExtendedSQL } from "./internal/internal-db";
 export {
@@ -33,7 +85,42 @@ export {
   isSqlLoggingEnabled,
   resetConnection,
   sql,
+  toSqlString,
+  withReadYourWrites,
 } from "./internal/internal-db";
+export { defaultSqlFormatter } from "./internal/sql-formatter";
+export type { ParameterizedSql, ToSqlStringOptions } from "./internal/sql-renderer";
 
 // Transactional decorator
-export { Transactional } from "./internal/transactional";
+export type { TransactionHook } from "./internal/context";
+export type {
+  IsolationLevel,
+  Propagation,
+  TransactionalOptions,
+  TransactionRetryOptions,
+} from "./internal/transactional";
+export {
+  isRetryableTransactionError,
+  onAfterCommit,
+  onAfterRollback,
+  onBeforeCommit,
+  Transactional,
+  withRollback,
+  withTransaction,
+} from "./internal/transactional";
+
+// Errors
+export {
+  InvalidCursorError,
+  InvalidSortError,
+  NotFoundError,
+  RowValidationError,
+  TooManyRowsError,
+  TransactionIsolationError,
+  TransactionPropagationError,
+  TransactionTimeoutError,
+} from "./errors";
+
+// Multi-database registry
+export type { DbHandle } from "./internal/registry";
+export { getDb, registerDb, unregisterDb } from "./internal/registry";
@@ -1,5 +1,6 @@
 import { AsyncLocalStorage } from 'node:async_hooks';
 import type { SQL } from 'bun';
+import type { IsolationLevel } from './transactional';
 
 // 트랜잭션 타입 export
 export type TxType = SQL;
@@ -11,7 +12,37 @@ export type TxType = SQL;
 
 export interface DbContext {
   tx?: SQL; // 현재 활성화된 트랜잭션
+  txIsolation?: IsolationLevel; // 현재 트랜잭션의 격리 수준 (미지정 시 DB 기본값)
+  txHooks?: TransactionHooks; // 현재 트랜잭션에 등록된 커밋/롤백 훅
+  txState?: TransactionState; // 현재 트랜잭션 상태 (타임아웃/취소 여부)
+  rollbackOnly?: boolean; // 항상 롤백되는 트랜잭션(withRollback) 안인지 여부
   skipSqlLogging?: boolean; // SQL 로깅 스킵 여부
+  writeTracker?: WriteTracker; // 마지막 쓰기 시각 (read-your-writes 라우팅용)
+}
+
+// 마지막 쓰기 시각 기록
+// - 객체 참조를 공유하므로 하위 컨텍스트({ ...context })에서 기록해도 상위 컨텍스트에 반영됨
+export interface WriteTracker {
+  lastWriteAt: number;
+}
+
+// 트랜잭션 훅 (등록 순서대로 실행)
+// - 트랜잭션에 참여한 하위 컨텍스트는 같은 객체를 공유
+export type TransactionHook = () => void | Promise<void>;
+
+export interface TransactionHooks {
+  beforeCommit: TransactionHook[];
+  afterCommit: TransactionHook[];
+  afterRollback: TransactionHook[];
+}
+
+// 트랜잭션 상태
+// - 타임아웃/취소로 롤백되면 abortError 설정 (같은 컨텍스트의 후속 쿼리 거부)
+// - 타임아웃/취소 옵션이 있으면 실행 중인 쿼리를 취소할 수 있도록 연결 ID 기록
+export interface TransactionState {
+  abortError?: Error;
+  connectionId?: number;
+  finished?: boolean; // 커밋/롤백 완료 여부
 }
 
 // 통합 컨텍스트 저장소
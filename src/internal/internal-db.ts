@@ -1,31 +1,51 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { SQL } from "bun";
+import { type DbContext, dbContextStorage } from "./context";
+import { defaultSqlFormatter, isProdEnv } from "./sql-formatter";
 import {
-  dbContextStorage,
-  getDbContext,
-  getTx,
-  isSqlLoggingSkipped,
-} from "./context";
+  isSqlQuery,
+  type ParameterizedSql,
+  parameterizeSqlTemplate,
+  renderSql,
+  renderSqlTemplate,
+  type ToSqlStringOptions,
+} from "./sql-renderer";
 import {
   consoleLogger,
   type DbConfig,
+  type DbConnectionConfig,
+  type DbReplicaConnectionConfig,
   type SqlLogger,
   type SqlLoggingOptions,
+  type SqlQueryEvent,
+  type SqlQueryFormatter,
+  type SqlRedactionOptions,
 } from "../types";
 
 // ============================================================
-// 확장된 SQL 타입 정의 (verbose/silent 체이닝 지원)
+// 확장된 SQL 타입 정의 (verbose/silent/primary/replica/slow 체이닝 지원)
 // ============================================================
 
 /**
- * verbose/silent 체이닝을 지원하는 확장된 SQL 타입
+ * verbose/silent/primary/replica/slow 체이닝을 지원하는 확장된 SQL 타입
  * - sql.verbose`...`: 전역 설정 무시하고 항상 로깅
  * - sql.silent`...`: 전역 설정 무시하고 로깅 안함
+ * - sql.primary`...`: DB 헬퍼 조회 메서드에서도 항상 primary로 실행
+ * - sql.replica`...`: 복제본으로 실행 (트랜잭션 내에서는 트랜잭션 연결 사용)
+ * - sql.slow(ms)`...`: 이 쿼리만 느린 쿼리 기준 시간 변경
+ * - 체이닝 조합 가능: sql.replica.silent`...`
  */
 export interface ExtendedSQL extends SQL {
   /** 전역 설정 무시하고 항상 로깅 */
-  verbose: SQL;
+  verbose: ExtendedSQL;
   /** 전역 설정 무시하고 로깅 안함 */
-  silent: SQL;
+  silent: ExtendedSQL;
+  /** 항상 primary로 실행 (복제본 라우팅 안함) */
+  primary: ExtendedSQL;
+  /** 복제본으로 실행 (복제본이 없으면 primary) */
+  replica: ExtendedSQL;
+  /** 이 쿼리의 느린 쿼리 기준 시간 (ms, logging.slowQueryThresholdMs 대신 사용) */
+  slow(thresholdMs: number): ExtendedSQL;
 }
 
 // ============================================================
@@ -34,17 +54,72 @@ export interface ExtendedSQL extends SQL {
 
 export type DbType = "mysql" | "postgres";
 
+/**
+ * SQL Proxy 로깅 모드
+ */
+type LoggingMode = "default" | "verbose" | "silent";
+
+/**
+ * SQL Proxy 실행 대상
+ * - auto: primary로 실행, DB 헬퍼 조회 메서드에서는 복제본으로 라우팅
+ * - primary: 항상 primary
+ * - replica: 항상 복제본 (복제본이 없으면 primary)
+ */
+type QueryTarget = "auto" | "primary" | "replica";
+
+/**
+ * SQL Proxy 옵션 (체이닝으로 변경)
+ */
+interface SqlProxyOptions {
+  mode: LoggingMode;
+  target: QueryTarget;
+  /** 느린 쿼리 기준 시간 (sql.slow(ms), 없으면 전역 설정) */
+  slowThresholdMs?: number;
+}
+
+/**
+ * 로깅 Proxy에 전달하는 쿼리 정보 (실행 전에 준비)
+ * - 로그용 SQL은 로깅할 때만 렌더링
+ */
+interface QueryLogInfo {
+  strings: TemplateStringsArray;
+  values: unknown[];
+  /** 일반 쿼리 로그 대상 여부 (false면 느린 쿼리만 로깅) */
+  logAll: boolean;
+  slowThresholdMs: number | undefined;
+  inTransaction: boolean;
+  stackCapture: Error | undefined;
+  start: number;
+}
+
+/**
+ * 프록시로 생성한 쿼리의 원본 호출 정보 (복제본 재생성용)
+ */
+interface QueryOrigin {
+  args: unknown[];
+  options: SqlProxyOptions;
+}
+
+/**
+ * DB 인스턴스 생성 옵션 (내부용)
+ */
+interface DbInstanceOptions {
+  /** connection 설정에 없는 접속 정보를 환경변수(DATABASE_URL / DB_*)에서 읽을지 여부 */
+  useEnv?: boolean;
+  /** 트랜잭션/로깅 컨텍스트 저장소 (없으면 새로 생성) */
+  contextStorage?: AsyncLocalStorage<DbContext>;
+}
+
 // ============================================================
-// 상태 및 설정
+// 상수
 // ============================================================
 
-let baseSql: SQL | null = null;
-let detectedDbType: DbType | null = null;
-let sqlLoggingEnabled = false;
-let currentLogger: SqlLogger = consoleLogger;
-let dateStringsEnabled = false;
+/**
+ * 기본 DB 인스턴스 이름 (환경변수 기반)
+ */
+export const DEFAULT_DB_NAME = "default";
 
-// 연결 풀 설정
+// 연결 풀 기본 설정 (connection.max / connection.idleTimeout으로 변경 가능)
 const CONNECTION_POOL_CONFIG = {
   max: 10, // 최대 연결 수
   idleTimeout: 30, // 유휴 연결 타임아웃 (초)
@@ -57,531 +132,1071 @@ const DEFAULT_PORTS: Record<DbType, number> = {
 };
 
 // ============================================================
-// SQL 로깅 설정
+// 쿼리 로그 이벤트
 // ============================================================
 
 /**
- * SQL 로깅 설정 (내부 함수)
+ * 스택 트레이스 포맷팅
  */
-function setSqlLogging(options: SqlLoggingOptions): void {
-  sqlLoggingEnabled = options.enabled;
-  if (options.logger) {
-    currentLogger = options.logger;
-  } else {
-    currentLogger = consoleLogger;
-  }
+function formatStackTrace(stackCapture?: Error): string {
+  const stack = stackCapture?.stack || new Error().stack;
+  return stack?.replace(/^Error.*\n/, "").replace(/Stack Capture\n/, "") || "";
 }
 
 /**
- * SQL 로깅 활성화 여부 확인
+ * 조회 쿼리 여부 (EXPLAIN 대상 판단)
  */
-export function isSqlLoggingEnabled(): boolean {
-  return sqlLoggingEnabled;
+function isSelectSql(sql: string): boolean {
+  return /^\s*\(?\s*(?:SELECT|WITH)\b/i.test(sql);
 }
 
 /**
- * DB 설정
- * @example
- * // 로깅 + dateStrings 설정
- * configureDb({
- *   logging: { enabled: true, logger: myLogger },
- *   dateStrings: true,
- * });
- *
- * // dateStrings만 설정
- * configureDb({ dateStrings: true });
+ * 쿼리 결과의 반환 행 수와 변경 행 수
+ * - PostgreSQL: count (SELECT 외 명령), MySQL: affectedRows
  */
-export function configureDb(config: DbConfig): void {
-  if (config.logging !== undefined) {
-    setSqlLogging(config.logging);
-  }
-  if (config.dateStrings !== undefined) {
-    dateStringsEnabled = config.dateStrings;
+function getResultCounts(result: unknown): {
+  rowCount: number | undefined;
+  affectedRows: number | undefined;
+} {
+  if (!Array.isArray(result)) {
+    return { rowCount: undefined, affectedRows: undefined };
   }
+  const { affectedRows, count, command } = result as {
+    affectedRows?: unknown;
+    count?: unknown;
+    command?: unknown;
+  };
+  const changed = typeof affectedRows === "number" ? affectedRows : count;
+  return {
+    rowCount: result.length,
+    affectedRows: command !== "SELECT" && typeof changed === "number" ? changed : undefined,
+  };
 }
 
+// ============================================================
+// DB 타입 감지
+// ============================================================
+
 /**
- * dateStrings 옵션 활성화 여부 확인
+ * 접속 URL에서 DB 타입을 자동 감지합니다.
  */
-export function isDateStringsEnabled(): boolean {
-  return dateStringsEnabled;
+function detectDbType(url: string | undefined): DbType {
+  if (url?.startsWith("mysql://")) return "mysql";
+  return "postgres"; // 기본값
 }
 
 /**
- * SQL 로깅을 스킵하는 컨텍스트 내에서 함수 실행
- * - 통합된 dbContextStorage를 사용하여 기존 컨텍스트(트랜잭션 등) 유지
+ * 두 연결 설정이 같은지 비교 (얕은 비교, replicas는 항목별 비교)
  */
-export function withSkippedSqlLogging<T>(fn: () => Promise<T>): Promise<T> {
-  const currentContext = getDbContext();
-  return dbContextStorage.run({ ...currentContext, skipSqlLogging: true }, fn);
+function isSameConnectionConfig(
+  a: DbConnectionConfig | undefined,
+  b: DbConnectionConfig | undefined
+): boolean {
+  const aKeys = Object.keys(a ?? {}) as (keyof DbConnectionConfig)[];
+  const bKeys = Object.keys(b ?? {});
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+  return aKeys.every((key) =>
+    key === "replicas"
+      ? isSameReplicas(a?.replicas, b?.replicas)
+      : a?.[key] === b?.[key]
+  );
 }
 
-/**
- * SQL 문자열 빌드 (바인딩 값 포함)
- */
-function buildSqlString(
-  strings: TemplateStringsArray,
-  values: unknown[]
-): string {
-  let result = strings[0] || "";
-  for (let i = 0; i < values.length; i++) {
-    const value = values[i];
-    result += formatValue(value);
-    result += strings[i + 1] || "";
-  }
-  // result가 string이 아닌 경우 대비
-  if (typeof result !== "string") {
-    result = String(result);
-  }
-  // prod 환경에서는 줄바꿈 제거, 그 외에는 유지
-  if (process.env.STAGE === "prod") {
-    return result.replace(/\s+/g, " ").trim();
-  }
-  return result.trim();
+function isSameReplicas(
+  a: DbReplicaConnectionConfig[] | undefined,
+  b: DbReplicaConnectionConfig[] | undefined
+): boolean {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  return a.every((replica, i) => isSameConnectionConfig(replica, b[i]));
 }
 
 /**
- * Symbol 속성에서 값 추출 (안전한 폴백 포함)
- * - Bun 내부 구현에 의존하므로 버전 업데이트 시 깨질 수 있음
- * - try-catch로 안전하게 처리
+ * 템플릿 리터럴 호출인지 확인 (sql(values) 같은 호출 제외)
+ * - TemplateStringsArray는 raw 속성을 가지고, 첫 번째 요소가 string임
  */
-function getSymbolProperty(obj: any, symbolName: string): any {
-  try {
-    const symbols = Object.getOwnPropertySymbols(obj);
-    const targetSymbol = symbols.find(
-      (s) => s.toString() === `Symbol(${symbolName})`
-    );
-    return targetSymbol ? obj[targetSymbol] : undefined;
-  } catch {
-    // Symbol 접근 실패 시 undefined 반환
-    return undefined;
-  }
+function isTemplateCall(argArray: any[]): boolean {
+  const firstArg = argArray[0];
+  return Boolean(
+    firstArg &&
+      typeof firstArg === "object" &&
+      "raw" in firstArg &&
+      typeof firstArg[0] === "string"
+  );
 }
 
+// ============================================================
+// DB 인스턴스 (연결 풀 + 설정 + 컨텍스트)
+// ============================================================
+
 /**
- * SQL Fragment 객체에서 SQL 문자열 추출 시도
- * - 여러 방법으로 시도하여 안정성 확보
- * - Bun 버전 업데이트에도 대응할 수 있도록 다중 폴백 구현
+ * 하나의 데이터베이스에 대한 연결 풀, 설정, 트랜잭션 컨텍스트를 관리합니다.
+ * - 기본 인스턴스는 환경변수(DATABASE_URL / DB_*)로 연결
+ * - registerDb()로 등록한 인스턴스는 각자의 URL, 풀, 로깅 설정, 컨텍스트를 가짐
+ * - connection.replicas가 있으면 복제본 풀을 함께 관리
  */
-function extractSqlFromFragment(obj: any): string | null {
-  try {
-    // 방법 1: Bun SQL Query 객체의 Symbol 속성에서 추출
-    // Symbol(strings)와 Symbol(values)에서 SQL 정보 추출
-    const symbolStrings = getSymbolProperty(obj, "strings");
-    const symbolValues = getSymbolProperty(obj, "values");
+export class DbInstance {
+  readonly name: string;
+  /** 트랜잭션/로깅 컨텍스트 저장소 (인스턴스별로 분리) */
+  readonly contextStorage: AsyncLocalStorage<DbContext>;
+  /** 트랜잭션 자동 전환 + 로깅이 적용된 SQL Proxy */
+  readonly sql: ExtendedSQL;
+
+  private readonly useEnv: boolean;
+  private connectionConfig: DbConnectionConfig | undefined;
+  private baseSql: SQL | null = null;
+  private replicaSqls: SQL[] | null = null;
+  private replicaInFlight: number[] = []; // 복제본별 실행 중인 쿼리 수 (least-busy)
+  private replicaCursor = 0; // round-robin 위치
+  private readonly queryOrigins = new WeakMap<object, QueryOrigin>();
+  private detectedDbType: DbType | null = null;
+  private serverVersion: Promise<string> | null = null;
+  private sqlLoggingEnabled = false;
+  private currentLogger: SqlLogger = consoleLogger;
+  private sqlRedaction: SqlRedactionOptions | undefined;
+  private queryListener: ((event: SqlQueryEvent) => void) | undefined;
+  private slowQueryThresholdMs: number | undefined;
+  private explainSlowQueries = false;
+  private sqlFormatter: SqlQueryFormatter = defaultSqlFormatter;
+  private dateStringsEnabled = false;
+  private cursorSecret: string | undefined;
+
+  constructor(name: string, options: DbInstanceOptions = {}) {
+    this.name = name;
+    this.useEnv = options.useEnv ?? true;
+    this.contextStorage = options.contextStorage ?? new AsyncLocalStorage<DbContext>();
+    this.sql = this.createSqlProxy({ mode: "default", target: "auto" });
+  }
+
+  // ============================================================
+  // 설정
+  // ============================================================
+
+  /**
+   * DB 설정 (undefined 옵션은 기존 값 유지)
+   * - 연결 풀 생성 후 connection 설정을 변경하면 에러 (다른 설정도 적용하지 않음)
+   */
+  configure(config: DbConfig): void {
+    if (
+      config.connection !== undefined &&
+      (this.baseSql || this.replicaSqls) &&
+      !isSameConnectionConfig(this.connectionConfig, config.connection)
+    ) {
+      throw new Error(
+        `[${this.name}] 연결 풀이 이미 생성되어 connection 설정을 변경할 수 없습니다. 첫 쿼리 전에 설정하거나 연결을 종료(resetConnection)한 후 다시 설정해주세요.`
+      );
+    }
+
+    if (config.connection !== undefined) {
+      this.connectionConfig = { ...config.connection };
+      this.detectedDbType = null; // DB 타입은 새 연결 설정으로 다시 감지
+      this.serverVersion = null;
+    }
+    if (config.logging !== undefined) {
+      this.setSqlLogging(config.logging);
+    }
+    if (config.dateStrings !== undefined) {
+      this.dateStringsEnabled = config.dateStrings;
+    }
+    if (config.cursorSecret !== undefined) {
+      this.cursorSecret = config.cursorSecret;
+    }
+  }
+
+  /**
+   * SQL 로깅 설정 (내부 함수)
+   */
+  private setSqlLogging(options: SqlLoggingOptions): void {
+    this.sqlLoggingEnabled = options.enabled;
+    this.currentLogger = options.logger ?? consoleLogger;
+    this.sqlRedaction = options.redaction;
+    this.queryListener = options.onQuery;
+    this.slowQueryThresholdMs = options.slowQueryThresholdMs;
+    this.explainSlowQueries = options.explainSlowQueries ?? false;
+    this.sqlFormatter = options.formatter ?? defaultSqlFormatter;
+  }
+
+  /**
+   * SQL 로깅 활성화 여부 확인
+   */
+  isSqlLoggingEnabled(): boolean {
+    return this.sqlLoggingEnabled;
+  }
+
+  /**
+   * dateStrings 옵션 활성화 여부 확인
+   */
+  isDateStringsEnabled(): boolean {
+    return this.dateStringsEnabled;
+  }
+
+  /**
+   * 커서 토큰 서명 키 조회 (설정값 → 환경변수 DB_CURSOR_SECRET)
+   */
+  getCursorSecret(): string {
+    const secret = this.cursorSecret ?? this.getEnv("DB_CURSOR_SECRET");
+    if (!secret) {
+      throw new Error(
+        `[${this.name}] 커서 서명 키가 설정되지 않았습니다. configureDb({ cursorSecret })를 호출하거나 DB_CURSOR_SECRET 환경변수를 설정해주세요.`
+      );
+    }
+    return secret;
+  }
+
+  // ============================================================
+  // 연결
+  // ============================================================
+
+  /**
+   * 환경변수 조회 (환경변수를 사용하지 않는 연결은 항상 undefined)
+   */
+  private getEnv(key: string, useEnv = this.useEnv): string | undefined {
+    return useEnv ? process.env[key] : undefined;
+  }
+
+  /**
+   * 접속 URL
+   * - connection.url 우선
+   * - connection.host가 지정된 경우 DATABASE_URL 환경변수는 무시
+   */
+  private getConnectionUrl(
+    connection: DbConnectionConfig | undefined = this.connectionConfig,
+    useEnv = this.useEnv
+  ): string | undefined {
+    if (connection?.url) {
+      return connection.url;
+    }
+    return connection?.host === undefined ? this.getEnv("DATABASE_URL", useEnv) : undefined;
+  }
+
+  /**
+   * 현재 DB 타입을 반환합니다.
+   */
+  getDbType(): DbType {
+    if (!this.detectedDbType) {
+      this.detectedDbType =
+        this.connectionConfig?.dbType ?? detectDbType(this.getConnectionUrl());
+    }
+    return this.detectedDbType;
+  }
 
-    if (symbolStrings && Array.isArray(symbolStrings)) {
-      const values = Array.isArray(symbolValues) ? symbolValues : [];
-      // TemplateStringsArray처럼 사용하기 위해 raw 속성 추가
-      const strings = Object.assign([...symbolStrings], { raw: symbolStrings });
-      return buildSqlString(strings as TemplateStringsArray, values);
+  /**
+   * DB 서버 버전 (SELECT VERSION(), 처음 조회한 값을 캐시)
+   * - 예: MySQL '8.0.36', MariaDB '10.11.6-MariaDB', PostgreSQL 'PostgreSQL 16.2 on ...'
+   * - 트랜잭션 안이면 트랜잭션 연결로 조회 (풀이 모두 사용 중이어도 대기하지 않음)
+   */
+  getServerVersion(): Promise<string> {
+    if (!this.serverVersion) {
+      const version = this.sql.silent`SELECT VERSION() AS version`.then(
+        (rows: Record<string, unknown>[]) => String(rows[0]?.version ?? "")
+      );
+      // 실패하면 다음 호출에서 다시 조회
+      version.catch(() => {
+        if (this.serverVersion === version) {
+          this.serverVersion = null;
+        }
+      });
+      this.serverVersion = version;
     }
+    return this.serverVersion;
+  }
 
-    // 방법 2: 일반 속성으로 strings/values가 있는 경우
-    if (obj.strings && Array.isArray(obj.strings) && "values" in obj) {
-      const strings = obj.strings as TemplateStringsArray;
-      const values = Array.isArray(obj.values) ? obj.values : [];
-      return buildSqlString(strings, values);
+  getBaseSql(): SQL {
+    if (this.baseSql) {
+      return this.baseSql;
     }
+    this.baseSql = this.createClient(this.connectionConfig ?? {}, this.useEnv);
+    return this.baseSql;
+  }
 
-    // 방법 3: raw SQL 문자열이 있는 경우
-    if (typeof obj.raw === "string") {
-      return obj.raw;
+  /**
+   * 연결 설정으로 Bun SQL 인스턴스(연결 풀) 생성
+   */
+  private createClient(connection: DbConnectionConfig, useEnv: boolean): SQL {
+    const connectionOptions = {
+      // 연결 풀 설정
+      max: connection.max ?? CONNECTION_POOL_CONFIG.max,
+      idleTimeout: connection.idleTimeout ?? CONNECTION_POOL_CONFIG.idleTimeout,
+      connectionTimeout: connection.connectionTimeout,
+      maxLifetime: connection.maxLifetime,
+      tls: connection.tls,
+      // 이벤트 핸들러 제거 (로그 노이즈 및 중복 재연결 방지)
+      // Bun SQL이 내부적으로 연결 상태를 관리하도록 함
+    };
+
+    const databaseUrl = this.getConnectionUrl(connection, useEnv);
+    if (databaseUrl) {
+      return new SQL(databaseUrl, connectionOptions);
     }
 
-    // 방법 4: query 속성이 있는 경우
-    if (typeof obj.query === "string") {
-      return obj.query;
+    const host = connection.host ?? this.getEnv("DB_HOST", useEnv);
+    const dbType = this.getDbType();
+    const envPort = this.getEnv("DB_PORT", useEnv);
+    const port =
+      connection.port ?? (envPort ? Number.parseInt(envPort, 10) : DEFAULT_PORTS[dbType]);
+    const username = connection.username ?? this.getEnv("DB_USER", useEnv);
+    const password = connection.password ?? this.getEnv("DB_PASSWORD", useEnv);
+    const database = connection.database ?? this.getEnv("DB_NAME", useEnv);
+
+    if (host && username && password && database) {
+      return new SQL({
+        adapter: dbType,
+        host,
+        port,
+        username,
+        password,
+        database,
+        ...connectionOptions,
+      });
     }
 
-    // 방법 5: toString() 메서드가 유용한 정보를 반환하는 경우
-    if (typeof obj.toString === "function") {
-      const str = obj.toString();
-      // [object Object]가 아닌 경우에만 사용
-      if (str && !str.includes("[object")) {
-        return str;
+    throw new Error(
+      useEnv
+        ? "데이터베이스 설정이 누락되었습니다. DATABASE_URL 또는 (DB_HOST, DB_USER, DB_PASSWORD, DB_NAME)을 설정하거나 configureDb({ connection })으로 지정해주세요."
+        : `[${this.name}] 데이터베이스 설정이 누락되었습니다. connection.url 또는 (host, username, password, database)를 지정해주세요.`
+    );
+  }
+
+  reset(): void {
+    if (this.baseSql) {
+      this.baseSql.close();
+      this.baseSql = null;
+    }
+    if (this.replicaSqls) {
+      for (const replicaSql of this.replicaSqls) {
+        replicaSql.close();
       }
+      this.replicaSqls = null;
     }
+    this.detectedDbType = null; // DB 타입 캐시도 초기화
+    this.serverVersion = null;
+  }
 
-    return null;
-  } catch {
-    // 모든 시도 실패 시 null 반환 (로깅에서 [SQL Fragment]로 표시됨)
-    return null;
+  isConnected(): boolean {
+    // Bun SQL 인스턴스가 생성되어 있으면 연결 가능한 상태로 간주
+    // 실제 연결은 쿼리 실행 시점에 자동으로 맺어짐 (Lazy Connection)
+    return this.baseSql !== null;
   }
-}
 
-/**
- * 값을 SQL 문자열로 포맷팅
- */
-function formatValue(value: unknown): string {
-  if (value === null || value === undefined) {
-    return "NULL";
+  /**
+   * 연결에서 실행 중인 쿼리를 취소합니다. (트랜잭션 타임아웃/취소용)
+   * - 풀이 모두 사용 중이어도 바로 실행되도록 별도 연결을 만들어 실행 후 닫음
+   * - PostgreSQL: pg_cancel_backend, MySQL: KILL QUERY
+   * - 취소 연결을 맺는 동안 대상이 끝났으면(isActive가 false) 다른 쿼리를 취소하지 않도록 건너뜀
+   * - 실패해도 던지지 않고 기록만 함
+   */
+  async cancelBackendQuery(connectionId: number, isActive: () => boolean): Promise<void> {
+    const client = this.createClient({ ...this.connectionConfig, max: 1 }, this.useEnv);
+    try {
+      await client.connect();
+      if (!isActive()) {
+        return;
+      }
+      await (this.getDbType() === "mysql"
+        ? client.unsafe(`KILL QUERY ${connectionId}`)
+        : client`SELECT pg_cancel_backend(${connectionId})`);
+    } catch (error) {
+      const cause = error as { message?: string; stack?: string } | undefined;
+      this.currentLogger.error({
+        message: `[${this.name}] 실행 중인 쿼리(연결 ${connectionId}) 취소 중 에러가 발생했습니다.`,
+        error: cause?.message ?? String(error),
+        stack: cause?.stack,
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      await client.close();
+    }
   }
-  if (typeof value === "number" || typeof value === "bigint") {
-    return String(value);
+
+  // ============================================================
+  // 복제본 (Read Replica)
+  // ============================================================
+
+  /**
+   * 복제본 설정 여부
+   */
+  hasReplicas(): boolean {
+    return (this.connectionConfig?.replicas?.length ?? 0) > 0;
   }
-  if (typeof value === "boolean") {
-    return value ? "TRUE" : "FALSE";
+
+  /**
+   * 복제본 연결 풀 목록 (lazy initialization)
+   * - 지정하지 않은 풀 설정은 primary 설정을 따름
+   */
+  private getReplicaSqls(): SQL[] {
+    if (this.replicaSqls) {
+      return this.replicaSqls;
+    }
+
+    const { max, idleTimeout, connectionTimeout, maxLifetime, tls, replicas = [] } =
+      this.connectionConfig ?? {};
+    const poolConfig = { max, idleTimeout, connectionTimeout, maxLifetime, tls };
+    this.replicaSqls = replicas.map((replica) =>
+      this.createClient({ ...poolConfig, ...replica }, false)
+    );
+    this.replicaInFlight = this.replicaSqls.map(() => 0);
+    return this.replicaSqls;
   }
-  if (value instanceof Date) {
-    return `'${value.toISOString()}'`;
+
+  /**
+   * 실행 대상에 맞는 복제본 인덱스 선택 (복제본으로 실행하지 않으면 undefined)
+   */
+  private pickReplicaIndex(target: QueryTarget): number | undefined {
+    if (target !== "replica" || !this.hasReplicas()) {
+      return undefined;
+    }
+
+    const replicaCount = this.getReplicaSqls().length;
+    if (this.connectionConfig?.replicaStrategy === "least-busy") {
+      const minInFlight = Math.min(...this.replicaInFlight);
+      return this.replicaInFlight.indexOf(minInFlight);
+    }
+
+    const index = this.replicaCursor % replicaCount;
+    this.replicaCursor = (this.replicaCursor + 1) % replicaCount;
+    return index;
   }
-  if (Array.isArray(value)) {
-    return `[${value
-      .map((v) => (isNumber(v) ? v : JSON.stringify(v)))
-      .join(",")}]`;
+
+  /**
+   * 복제본 쿼리의 실행 중 상태를 추적하는 Proxy 생성 (least-busy 전략용)
+   */
+  private trackReplicaUsage(result: any, index: number): any {
+    if (!result || typeof result.then !== "function") {
+      return result;
+    }
+
+    // reset() 후 새 풀이 생성되어도 이전 카운터에만 반영되도록 참조 고정
+    const inFlight = this.replicaInFlight;
+    return new Proxy(result, {
+      get: (target, prop, receiver) => {
+        if (prop === "then") {
+          return (
+            onFulfilled?: (value: any) => any,
+            onRejected?: (error: Error) => any
+          ) => {
+            inFlight[index] = (inFlight[index] ?? 0) + 1;
+            const release = () => {
+              inFlight[index] = (inFlight[index] ?? 1) - 1;
+            };
+            return target.then(
+              (res: unknown) => {
+                release();
+                return onFulfilled ? onFulfilled(res) : res;
+              },
+              (error: Error) => {
+                release();
+                if (onRejected) return onRejected(error);
+                throw error;
+              }
+            );
+          };
+        }
+        return Reflect.get(target, prop, receiver);
+      },
+    });
   }
-  // SQL 템플릿 리터럴 객체 (쿼리 조합용)
-  if (value && typeof value === "object") {
-    const obj = value as any;
 
-    // SQL Fragment에서 실제 SQL 문자열 추출 시도
-    const extractedSql = extractSqlFromFragment(obj);
-    if (extractedSql !== null) {
-      return extractedSql;
+  /**
+   * 조회 쿼리를 복제본으로 라우팅합니다.
+   * - sql`...`로 생성한 자동(auto) 쿼리만 대상 (sql.primary, 트랜잭션 쿼리, 외부 쿼리는 그대로 반환)
+   * - withReadYourWrites() 범위에서 쓰기 후 readYourWritesMs 이내이면 primary 유지
+   * - Bun SQL 쿼리는 await 시점에 실행되므로 기존 쿼리는 실행되지 않고 버려짐
+   */
+  routeRead<T>(query: T): T {
+    const origin =
+      query && typeof query === "object" ? this.queryOrigins.get(query) : undefined;
+    if (!origin || this.getTx() || this.isInReadYourWritesWindow()) {
+      return query;
     }
+    return this.callSql(origin.args, { ...origin.options, target: "replica" });
+  }
 
-    // Promise-like 객체인 경우 (SQL 추출 실패 시)
-    if (typeof obj.then === "function") {
-      return "[SQL Fragment]";
+  /**
+   * 쿼리 객체의 SQL 문자열 (바인딩 값 포함, 에러 메시지용, 로그 마스킹 설정 적용)
+   * - sql`...`로 생성한 쿼리가 아니거나 추출할 수 없으면 undefined
+   */
+  getSqlString(query: unknown): string | undefined {
+    if (!isSqlQuery(query)) {
+      return undefined;
     }
+    return renderSql(query, this.getDbType(), true, this.sqlRedaction).sql;
   }
-  return JSON.stringify(value);
-}
 
-function isNumber(value: unknown): boolean {
-  return typeof value === "number" && !Number.isNaN(value);
-}
+  /**
+   * 현재 read-your-writes 범위에 쓰기 시각을 기록합니다.
+   * - withReadYourWrites() 범위 밖이면 기록하지 않음 (호출자의 비동기 컨텍스트를 바꾸지 않음)
+   * - 트랜잭션 컨텍스트는 범위의 기록 객체를 공유하므로 커밋 후 조회에도 반영됨
+   */
+  markWrite(): void {
+    if (!this.hasReplicas() || !this.connectionConfig?.readYourWritesMs) {
+      return;
+    }
 
-/**
- * 테스트 환경 여부 확인
- */
-function isTestEnv(): boolean {
-  return (
-    process.env.NODE_ENV === "test" ||
-    process.env.BUN_TEST !== undefined ||
-    process.env.JEST_WORKER_ID !== undefined
-  );
-}
+    const tracker = this.getContext()?.writeTracker;
+    if (tracker) {
+      tracker.lastWriteAt = performance.now();
+    }
+  }
 
-/**
- * 프로덕션 환경 여부 확인
- */
-function isProdEnv(): boolean {
-  return process.env.STAGE === "prod" || process.env.NODE_ENV === "production";
-}
+  /**
+   * read-your-writes 범위 안에서 함수 실행
+   * - 범위 안의 쓰기(트랜잭션 커밋 포함) 후 readYourWritesMs 이내의 조회는 primary로 라우팅
+   * - 이미 범위 안이면 바깥 범위의 기록을 그대로 사용
+   */
+  withReadYourWrites<T>(fn: () => Promise<T>): Promise<T> {
+    const currentContext = this.getContext();
+    if (currentContext?.writeTracker) {
+      return fn();
+    }
+    return this.contextStorage.run(
+      { ...currentContext, writeTracker: { lastWriteAt: Number.NEGATIVE_INFINITY } },
+      fn
+    );
+  }
 
-/**
- * 스택 트레이스 캡처 (로깅 활성화 시에만)
- * - 프로덕션 환경에서는 성능을 위해 스택 트레이스 캡처 비활성화
- * - 개발/테스트 환경에서만 스택 트레이스 제공
- */
-function captureStack(): Error | undefined {
-  // 프로덕션에서는 스택 트레이스 캡처하지 않음 (성능 최적화)
-  if (isProdEnv()) {
-    return undefined;
+  /**
+   * 마지막 쓰기 후 readYourWritesMs 이내인지 확인
+   */
+  private isInReadYourWritesWindow(): boolean {
+    const windowMs = this.connectionConfig?.readYourWritesMs ?? 0;
+    const lastWriteAt = this.getContext()?.writeTracker?.lastWriteAt;
+    return windowMs > 0 && lastWriteAt !== undefined && performance.now() - lastWriteAt < windowMs;
   }
-  return sqlLoggingEnabled ? new Error("Stack Capture") : undefined;
-}
 
-/**
- * 스택 트레이스 포맷팅
- */
-function formatStackTrace(stackCapture?: Error): string {
-  const stack = stackCapture?.stack || new Error().stack;
-  return stack?.replace(/^Error.*\n/, "").replace(/Stack Capture\n/, "") || "";
-}
+  // ============================================================
+  // 컨텍스트
+  // ============================================================
 
-/**
- * SQL 쿼리 로깅
- * - 프로덕션에서는 SQL과 Duration만 로깅 (스택 트레이스 제외)
- * - 개발/테스트 환경에서는 스택 트레이스 포함
- */
-function logQuery(
-  sqlString: string,
-  duration: number,
-  stackCapture?: Error
-): void {
-  // 프로덕션에서는 간단한 로그만
-  if (isProdEnv()) {
-    const logMessage = `${sqlString} [${duration.toFixed(2)}ms]`;
-    currentLogger.info(logMessage);
-    return;
+  /**
+   * 현재 컨텍스트 가져오기
+   */
+  getContext(): DbContext | undefined {
+    return this.contextStorage.getStore();
   }
 
-  // 개발/테스트 환경에서는 스택 트레이스 포함
-  const formattedStack = formatStackTrace(stackCapture);
-  const logMessage = `${sqlString}
+  /**
+   * 현재 트랜잭션을 가져오거나 없으면 undefined를 반환
+   */
+  getTx(): SQL | undefined {
+    return this.contextStorage.getStore()?.tx;
+  }
 
-    Duration: ${duration.toFixed(2)}ms
+  /**
+   * 쿼리를 실행할 트랜잭션을 가져옵니다.
+   * - 타임아웃/취소로 롤백된 트랜잭션이면 에러 (같은 컨텍스트의 후속 쿼리 거부)
+   */
+  private getActiveTx(): SQL | undefined {
+    const context = this.contextStorage.getStore();
+    if (context?.txState?.abortError) {
+      throw context.txState.abortError;
+    }
+    return context?.tx;
+  }
 
-${formattedStack}`;
+  /**
+   * 현재 컨텍스트에서 SQL 로깅이 스킵되었는지 확인
+   */
+  isSqlLoggingSkipped(): boolean {
+    return this.contextStorage.getStore()?.skipSqlLogging ?? false;
+  }
 
-  if (isTestEnv()) {
-    console.log(`🔍 [SQL] ${logMessage}`);
-  } else {
-    currentLogger.info(logMessage);
+  /**
+   * SQL 로깅을 스킵하는 컨텍스트 내에서 함수 실행
+   * - 기존 컨텍스트(트랜잭션 등) 유지
+   */
+  withSkippedSqlLogging<T>(fn: () => Promise<T>): Promise<T> {
+    const currentContext = this.getContext();
+    return this.contextStorage.run({ ...currentContext, skipSqlLogging: true }, fn);
   }
-}
 
-/**
- * SQL 에러 로깅
- */
-function logError(sqlString: string, error: Error): void {
-  const errorData = {
-    sql: sqlString,
-    error: error.message,
-    stack: error.stack,
-    timestamp: new Date().toISOString(),
-  };
+  // ============================================================
+  // 로깅
+  // ============================================================
+
+  /**
+   * 스택 트레이스 캡처 (로깅할 쿼리에서만 호출)
+   * - 프로덕션 환경에서는 성능을 위해 스택 트레이스 캡처 비활성화
+   * - 개발/테스트 환경에서만 호출 위치(callsite) 제공
+   */
+  private captureStack(): Error | undefined {
+    // 프로덕션에서는 스택 트레이스 캡처하지 않음 (성능 최적화)
+    if (isProdEnv()) {
+      return undefined;
+    }
+    return new Error("Stack Capture");
+  }
 
-  if (isTestEnv()) {
-    console.error(`❌ [SQL ERROR] ${errorData.sql}`);
-    console.error(`💥 Error: ${errorData.error}`);
-    console.error(`📍 Stack: ${errorData.stack}`);
-  } else {
-    currentLogger.error(errorData);
+  /**
+   * 쿼리 이벤트 발행 (쿼리 완료/실패 시 호출)
+   * - 일반 로그 대상이거나 느린 쿼리일 때만 이벤트 생성
+   * - 트랜잭션 밖의 느린 조회 쿼리는 explainSlowQueries 설정 시 실행 계획을 붙여 비동기로 발행
+   */
+  private emitQueryEvent(
+    info: QueryLogInfo,
+    mode: LoggingMode,
+    result: unknown,
+    error?: Error
+  ): void {
+    const durationMs = performance.now() - info.start;
+    const slow = info.slowThresholdMs !== undefined && durationMs >= info.slowThresholdMs;
+    // 일반 로그: verbose는 항상, default는 실행 시점의 로깅 스킵 컨텍스트 확인 (에러는 항상)
+    const logged =
+      info.logAll && (error !== undefined || mode === "verbose" || !this.isSqlLoggingSkipped());
+    if (!slow && !logged) {
+      return;
+    }
+
+    const { sql, params } = renderSqlTemplate(
+      info.strings,
+      info.values,
+      this.getDbType(),
+      this.sqlRedaction
+    );
+    const event: SqlQueryEvent = {
+      sql,
+      params,
+      durationMs,
+      ...(error ? { rowCount: undefined, affectedRows: undefined } : getResultCounts(result)),
+      dbType: this.getDbType(),
+      inTransaction: info.inTransaction,
+      mode,
+      callsite: info.stackCapture ? formatStackTrace(info.stackCapture) : undefined,
+      slow,
+      explain: undefined,
+      error,
+    };
+
+    if (slow && !error && this.explainSlowQueries && !info.inTransaction && isSelectSql(sql)) {
+      // 쿼리 결과를 반환한 뒤 발행하므로 onQuery/formatter 에러는 호출자 대신 logger.error로 기록
+      void this.explainQuery(info.strings, info.values)
+        .then((explain) => this.dispatchQueryEvent({ ...event, explain }))
+        .catch((dispatchError: unknown) => this.logQueryEventError(dispatchError));
+      return;
+    }
+    this.dispatchQueryEvent(event);
   }
-}
 
-// ============================================================
-// DB 타입 감지
-// ============================================================
+  /**
+   * 쿼리 이벤트 전달
+   * - onQuery가 있으면 이벤트를 그대로 전달
+   * - 없으면 formatter로 만든 메시지를 logger로 출력 (에러: error, 느린 쿼리: warn, 그 외: info)
+   */
+  private dispatchQueryEvent(event: SqlQueryEvent): void {
+    if (this.queryListener) {
+      this.queryListener(event);
+      return;
+    }
+    const message = this.sqlFormatter(event);
+    if (event.error) {
+      this.currentLogger.error(message);
+    } else if (event.slow && this.currentLogger.warn) {
+      this.currentLogger.warn(message);
+    } else {
+      this.currentLogger.info(message);
+    }
+  }
 
-/**
- * DATABASE_URL에서 DB 타입을 자동 감지합니다.
- */
-function detectDbType(): DbType {
-  const url = process.env.DATABASE_URL;
-  if (url?.startsWith("mysql://")) return "mysql";
-  return "postgres"; // 기본값
-}
+  /**
+   * 쿼리 이벤트 전달 실패 로깅 (실행 계획을 붙여 비동기로 발행한 이벤트)
+   */
+  private logQueryEventError(error: unknown): void {
+    const cause = error as { message?: string; stack?: string } | undefined;
+    this.currentLogger.error({
+      message: `[${this.name}] 쿼리 이벤트(onQuery/formatter) 처리 중 에러가 발생했습니다.`,
+      error: cause?.message ?? String(error),
+      stack: cause?.stack,
+      timestamp: new Date().toISOString(),
+    });
+  }
 
-/**
- * 현재 DB 타입을 반환합니다.
- */
-export function getDbType(): DbType {
-  if (!detectedDbType) {
-    detectedDbType = detectDbType();
+  /**
+   * 느린 조회 쿼리의 실행 계획 (EXPLAIN, JSON 형식)
+   * - 로깅 없이 primary 연결로 실행 (EXPLAIN은 쿼리를 실행하지 않음)
+   * - 실패하면 undefined
+   */
+  private async explainQuery(
+    strings: TemplateStringsArray,
+    values: unknown[]
+  ): Promise<unknown> {
+    const dbType = this.getDbType();
+    const { sql, params } = parameterizeSqlTemplate(strings, values, dbType);
+    const explain = dbType === "mysql" ? "EXPLAIN FORMAT=JSON" : "EXPLAIN (FORMAT JSON)";
+    try {
+      const rows: Record<string, unknown>[] = await this.getBaseSql().unsafe(
+        `${explain} ${sql}`,
+        params
+      );
+      const plan = rows[0] ? Object.values(rows[0])[0] : undefined;
+      return typeof plan === "string" ? JSON.parse(plan) : plan;
+    } catch {
+      return undefined;
+    }
   }
-  return detectedDbType;
-}
 
-// ============================================================
-// Public API
-// ============================================================
+  /**
+   * 트랜잭션 재시도 로깅
+   * - 재시도는 경합/장애의 징후이므로 SQL 로깅 설정과 관계없이 항상 기록
+   * @param attempt 다음에 실행할 시도 번호 (2부터 시작)
+   */
+  logTransactionRetry(
+    attempt: number,
+    maxAttempts: number,
+    delayMs: number,
+    error: unknown
+  ): void {
+    const cause = error as { message?: string; errno?: unknown } | undefined;
+    this.currentLogger.info({
+      message: `[${this.name}] 트랜잭션 재시도 ${attempt}/${maxAttempts} (${delayMs}ms 후)`,
+      attempt,
+      maxAttempts,
+      delayMs,
+      error: cause?.message ?? String(error),
+      errno: cause?.errno,
+      timestamp: new Date().toISOString(),
+    });
+  }
 
-export function getBaseSql(): SQL {
-  if (baseSql) {
-    return baseSql;
+  /**
+   * 트랜잭션 훅 에러 로깅
+   * - afterCommit/afterRollback 훅의 에러는 던지지 않고 기록만 함
+   */
+  logTransactionHookError(hook: string, error: unknown): void {
+    const cause = error as { message?: string; stack?: string } | undefined;
+    this.currentLogger.error({
+      message: `[${this.name}] 트랜잭션 ${hook} 훅 실행 중 에러가 발생했습니다.`,
+      error: cause?.message ?? String(error),
+      stack: cause?.stack,
+      timestamp: new Date().toISOString(),
+    });
   }
 
-  const connectionOptions = {
-    // 연결 풀 설정
-    max: CONNECTION_POOL_CONFIG.max,
-    idleTimeout: CONNECTION_POOL_CONFIG.idleTimeout,
-    // 이벤트 핸들러 제거 (로그 노이즈 및 중복 재연결 방지)
-    // Bun SQL이 내부적으로 연결 상태를 관리하도록 함
-  };
+  // ============================================================
+  // SQL Proxy (트랜잭션 자동 전환 + 로깅)
+  // ============================================================
+
+  /**
+   * SQL 결과 객체에 로깅을 추가하는 Proxy 생성
+   * - 원래 SQL 객체의 모든 속성을 유지 (쿼리 조합 기능 보존)
+   * - then/catch만 오버라이드하여 실행 시점에 로깅
+   * @param mode 로깅 모드 (verbose: 항상 로깅, silent: 로깅 안함, default: 전역 설정 따름)
+   */
+  private createLoggingProxy(
+    result: any,
+    info: QueryLogInfo,
+    mode: LoggingMode = "default"
+  ): any {
+    // result가 Promise가 아니면 그대로 반환
+    if (!result || typeof result.then !== "function") {
+      return result;
+    }
+
+    // 원래 SQL 객체를 Proxy로 감싸서 then/catch만 오버라이드
+    return new Proxy(result, {
+      get: (target, prop, receiver) => {
+        if (prop === "then") {
+          return (
+            onFulfilled?: (value: any) => any,
+            onRejected?: (error: Error) => any
+          ) => {
+            return target.then(
+              (res: unknown) => {
+                // 로깅 여부(모드, 컨텍스트, 느린 쿼리)는 emitQueryEvent에서 판단
+                this.emitQueryEvent(info, mode, res);
+                return onFulfilled ? onFulfilled(res) : res;
+              },
+              (error: Error) => {
+                // 에러는 일반 로그 대상이면 항상 로깅 (SQL 로깅 스킵과 무관)
+                this.emitQueryEvent(info, mode, undefined, error);
+                if (onRejected) return onRejected(error);
+                throw error;
+              }
+            );
+          };
+        }
+
+        if (prop === "catch") {
+          return (onRejected?: (error: Error) => any) => {
+            return target.catch((error: Error) => {
+              this.emitQueryEvent(info, mode, undefined, error);
+              if (onRejected) return onRejected(error);
+              throw error;
+            });
+          };
+        }
 
-  const databaseUrl = process.env.DATABASE_URL;
-  if (databaseUrl) {
-    baseSql = new SQL(databaseUrl, connectionOptions);
-    return baseSql;
-  }
-
-  const host = process.env.DB_HOST;
-  const dbType = getDbType();
-  const port = process.env.DB_PORT
-    ? Number.parseInt(process.env.DB_PORT, 10)
-    : DEFAULT_PORTS[dbType];
-  const username = process.env.DB_USER;
-  const password = process.env.DB_PASSWORD;
-  const database = process.env.DB_NAME;
-
-  if (host && username && password && database) {
-    baseSql = new SQL({
-      host,
-      port,
-      username,
-      password,
-      database,
-      ...connectionOptions,
+        // 나머지 속성은 원래 객체에서 가져옴 (SQL 조합 기능 유지)
+        return Reflect.get(target, prop, receiver);
+      },
     });
-    return baseSql;
   }
 
-  throw new Error(
-    "데이터베이스 설정이 누락되었습니다. DATABASE_URL 또는 (DB_HOST, DB_USER, DB_PASSWORD, DB_NAME)을 설정해주세요."
-  );
-}
+  /**
+   * SQL 호출 실행 (연결 선택 + 로깅 Proxy 적용)
+   * - 트랜잭션 내에서는 항상 트랜잭션 연결 사용
+   */
+  private callSql(argArray: any[], options: SqlProxyOptions): any {
+    const { mode, target } = options;
+    const tx = this.getActiveTx();
+    const replicaIndex = tx ? undefined : this.pickReplicaIndex(target);
+    const currentSql =
+      tx ||
+      (replicaIndex === undefined
+        ? this.getBaseSql()
+        : (this.getReplicaSqls()[replicaIndex] as SQL));
+
+    // 원래 SQL 결과 생성
+    let result = (currentSql as any)(...argArray);
+
+    // 템플릿 리터럴 호출이 아니면 그대로 반환 (sql(values) 같은 경우)
+    if (!isTemplateCall(argArray)) {
+      return result;
+    }
 
-export function resetConnection(): void {
-  if (baseSql) {
-    baseSql.close();
-    baseSql = null;
+    if (replicaIndex !== undefined && this.connectionConfig?.replicaStrategy === "least-busy") {
+      result = this.trackReplicaUsage(result, replicaIndex);
+    }
+
+    // 로깅 모드에 따른 처리
+    // silent: 항상 로깅 스킵
+    // verbose: 전역 설정 무시하고 항상 로깅
+    // default: 전역 설정에 따름
+    // 느린 쿼리 기준 시간이 있으면 로깅 모드와 관계없이 느린 쿼리를 로깅
+    const logAll =
+      mode === "verbose" ||
+      (mode === "default" && this.sqlLoggingEnabled && !this.isSqlLoggingSkipped());
+    const slowThresholdMs = options.slowThresholdMs ?? this.slowQueryThresholdMs;
+
+    if (logAll || slowThresholdMs !== undefined) {
+      // 로깅을 위한 정보 준비
+      const [strings, ...values] = argArray as [
+        TemplateStringsArray,
+        ...unknown[]
+      ];
+      const info: QueryLogInfo = {
+        strings,
+        values,
+        logAll,
+        slowThresholdMs,
+        inTransaction: tx !== undefined,
+        stackCapture: this.captureStack(),
+        start: performance.now(),
+      };
+
+      // 로깅 Proxy로 감싸서 반환 (원래 SQL 객체 특성 유지)
+      result = this.createLoggingProxy(result, info, mode);
+    }
+
+    // 복제본 라우팅 대상이면 원본 호출 정보 기록 (routeRead에서 재생성)
+    if (!tx && target === "auto" && this.hasReplicas() && result && typeof result === "object") {
+      this.queryOrigins.set(result, { args: argArray, options });
+    }
+
+    return result;
   }
-  detectedDbType = null; // DB 타입 캐시도 초기화
-}
 
-export function isDbConnected(): boolean {
-  // Bun SQL 인스턴스가 생성되어 있으면 연결 가능한 상태로 간주
-  // 실제 연결은 쿼리 실행 시점에 자동으로 맺어짐 (Lazy Connection)
-  return baseSql !== null;
+  /**
+   * 지정된 옵션(로깅 모드, 실행 대상)으로 SQL Proxy 생성
+   */
+  private createSqlProxy(options: SqlProxyOptions): ExtendedSQL {
+    // Proxy target은 실제로 사용되지 않음 (apply 핸들러에서 처리)
+    const noop = () => {
+      /* 의도적 빈 함수 */
+    };
+    return new Proxy(noop as unknown as ExtendedSQL, {
+      apply: (_target, _thisArg, argArray) => this.callSql(argArray, options),
+      get: (_target, prop, _receiver) => {
+        // verbose/silent 체이닝 지원
+        if (prop === "verbose" || prop === "silent") {
+          return this.createSqlProxy({ ...options, mode: prop });
+        }
+        // primary/replica 체이닝 지원
+        if (prop === "primary" || prop === "replica") {
+          return this.createSqlProxy({ ...options, target: prop });
+        }
+        // slow(ms) 체이닝 지원
+        if (prop === "slow") {
+          return (thresholdMs: number) =>
+            this.createSqlProxy({ ...options, slowThresholdMs: thresholdMs });
+        }
+
+        const tx = this.getActiveTx();
+        const replicaIndex = tx ? undefined : this.pickReplicaIndex(options.target);
+        const currentSql =
+          tx ||
+          (replicaIndex === undefined
+            ? this.getBaseSql()
+            : (this.getReplicaSqls()[replicaIndex] as SQL));
+        return Reflect.get(currentSql, prop, currentSql);
+      },
+    });
+  }
 }
 
 // ============================================================
-// SQL Proxy (트랜잭션 자동 전환 + 로깅)
+// DB 인스턴스 저장소
 // ============================================================
 
 /**
- * SQL 결과 객체에 로깅을 추가하는 Proxy 생성
- * - 원래 SQL 객체의 모든 속성을 유지 (쿼리 조합 기능 보존)
- * - then/catch만 오버라이드하여 실행 시점에 로깅
- * @param mode 로깅 모드 (verbose: 항상 로깅, silent: 로깅 안함, default: 전역 설정 따름)
+ * 기본 DB 인스턴스 (환경변수 기반, 기존 dbContextStorage 공유)
  */
-function createLoggingProxy(
-  result: any,
-  sqlString: string,
-  stackCapture: Error | undefined,
-  start: number,
-  mode: "default" | "verbose" | "silent" = "default"
-): any {
-  // result가 Promise가 아니면 그대로 반환
-  if (!result || typeof result.then !== "function") {
-    return result;
+const defaultInstance = new DbInstance(DEFAULT_DB_NAME, {
+  contextStorage: dbContextStorage,
+});
+
+const dbInstances = new Map<string, DbInstance>([[DEFAULT_DB_NAME, defaultInstance]]);
+
+/**
+ * 이름으로 DB 인스턴스를 조회합니다. (이름이 없으면 기본 인스턴스)
+ */
+export function getDbInstance(name: string = DEFAULT_DB_NAME): DbInstance {
+  const instance = dbInstances.get(name);
+  if (!instance) {
+    throw new Error(`등록되지 않은 데이터베이스입니다: ${name}`);
   }
+  return instance;
+}
 
-  // 원래 SQL 객체를 Proxy로 감싸서 then/catch만 오버라이드
-  return new Proxy(result, {
-    get(target, prop, receiver) {
-      if (prop === "then") {
-        return (
-          onFulfilled?: (value: any) => any,
-          onRejected?: (error: Error) => any
-        ) => {
-          return target.then(
-            (res: unknown) => {
-              // 로깅 모드에 따른 처리
-              // verbose: 항상 로깅
-              // silent: 로깅 안함 (이 경우 createLoggingProxy가 호출되지 않음)
-              // default: 전역 설정 + 컨텍스트에 따름
-              const shouldLog =
-                mode === "verbose" ||
-                (mode === "default" && !isSqlLoggingSkipped());
-
-              if (shouldLog) {
-                const duration = performance.now() - start;
-                logQuery(sqlString, duration, stackCapture);
-              }
-              return onFulfilled ? onFulfilled(res) : res;
-            },
-            (error: Error) => {
-              // 에러는 항상 로깅 (SQL 로깅 스킵과 무관)
-              logError(sqlString, error);
-              if (onRejected) return onRejected(error);
-              throw error;
-            }
-          );
-        };
-      }
+/**
+ * DB 인스턴스 등록 여부 확인
+ */
+export function hasDbInstance(name: string): boolean {
+  return dbInstances.has(name);
+}
 
-      if (prop === "catch") {
-        return (onRejected?: (error: Error) => any) => {
-          return target.catch((error: Error) => {
-            logError(sqlString, error);
-            if (onRejected) return onRejected(error);
-            throw error;
-          });
-        };
-      }
+/**
+ * DB 인스턴스를 저장소에 추가합니다.
+ */
+export function addDbInstance(instance: DbInstance): void {
+  if (dbInstances.has(instance.name)) {
+    throw new Error(`이미 등록된 데이터베이스입니다: ${instance.name}`);
+  }
+  dbInstances.set(instance.name, instance);
+}
 
-      // 나머지 속성은 원래 객체에서 가져옴 (SQL 조합 기능 유지)
-      return Reflect.get(target, prop, receiver);
-    },
-  });
+/**
+ * DB 인스턴스를 저장소에서 제거합니다. (기본 인스턴스는 제거 불가)
+ */
+export function removeDbInstance(name: string): DbInstance | undefined {
+  if (name === DEFAULT_DB_NAME) {
+    throw new Error("기본 데이터베이스는 등록 해제할 수 없습니다.");
+  }
+  const instance = dbInstances.get(name);
+  dbInstances.delete(name);
+  return instance;
 }
 
 // ============================================================
-// SQL Proxy 로깅 모드
+// Public API (기본 인스턴스)
 // ============================================================
 
-type LoggingMode = "default" | "verbose" | "silent";
+/**
+ * SQL 로깅 활성화 여부 확인
+ */
+export function isSqlLoggingEnabled(): boolean {
+  return defaultInstance.isSqlLoggingEnabled();
+}
 
 /**
- * 지정된 로깅 모드로 SQL Proxy 생성
+ * DB 설정
+ * @example
+ * // 로깅 + dateStrings 설정
+ * configureDb({
+ *   logging: { enabled: true, logger: myLogger },
+ *   dateStrings: true,
+ * });
+ *
+ * // dateStrings만 설정
+ * configureDb({ dateStrings: true });
  */
-function createSqlProxyWithMode(mode: LoggingMode): SQL {
-  // Proxy target은 실제로 사용되지 않음 (apply 핸들러에서 처리)
-  const noop = () => {
-    /* 의도적 빈 함수 */
-  };
-  return new Proxy(noop as unknown as SQL, {
-    apply(_target, _thisArg, argArray) {
-      const tx = getTx();
-      const currentSql = tx || getBaseSql();
-
-      // 원래 SQL 결과 생성
-      const result = (currentSql as any)(...argArray);
-
-      // 로깅 모드에 따른 처리
-      // silent: 항상 로깅 스킵
-      if (mode === "silent") {
-        return result;
-      }
+export function configureDb(config: DbConfig): void {
+  defaultInstance.configure(config);
+}
 
-      // verbose: 전역 설정 무시하고 항상 로깅
-      // default: 전역 설정에 따름
-      const shouldLog =
-        mode === "verbose" ||
-        (mode === "default" && sqlLoggingEnabled && !isSqlLoggingSkipped());
+/**
+ * dateStrings 옵션 활성화 여부 확인
+ */
+export function isDateStringsEnabled(): boolean {
+  return defaultInstance.isDateStringsEnabled();
+}
 
-      if (!shouldLog) {
-        return result;
-      }
+/**
+ * SQL 로깅을 스킵하는 컨텍스트 내에서 함수 실행
+ * - 통합된 dbContextStorage를 사용하여 기존 컨텍스트(트랜잭션 등) 유지
+ */
+export function withSkippedSqlLogging<T>(fn: () => Promise<T>): Promise<T> {
+  return defaultInstance.withSkippedSqlLogging(fn);
+}
 
-      // sql(values) 형태의 호출인지 확인 (템플릿 리터럴이 아닌 경우)
-      // TemplateStringsArray는 raw 속성을 가지고, 첫 번째 요소가 string임
-      const firstArg = argArray[0];
-      const isTemplateCall =
-        firstArg &&
-        typeof firstArg === "object" &&
-        "raw" in firstArg &&
-        typeof firstArg[0] === "string";
-
-      // 템플릿 리터럴 호출이 아니면 로깅 없이 반환 (sql(values) 같은 경우)
-      if (!isTemplateCall) {
-        return result;
-      }
+/**
+ * read-your-writes 범위 안에서 함수 실행 (요청 핸들러 단위로 감싸서 사용)
+ * - 범위 안에서 쓰기 후 readYourWritesMs 이내의 조회는 primary로 라우팅
+ * @example
+ * app.post('/orders', (req) =>
+ *   withReadYourWrites(async () => {
+ *     await OrderService.create(req.body);
+ *     return DB.many(sql`SELECT * FROM orders`); // primary에서 조회
+ *   }));
+ */
+export function withReadYourWrites<T>(
+  fn: () => Promise<T>,
+  options: { db?: string } = {}
+): Promise<T> {
+  return getDbInstance(options.db).withReadYourWrites(fn);
+}
 
-      // 로깅을 위한 정보 준비
-      const [strings, ...values] = argArray as [
-        TemplateStringsArray,
-        ...unknown[]
-      ];
-      const sqlString = buildSqlString(strings, values);
-      const stackCapture = captureStack();
-      const start = performance.now();
+/**
+ * 현재 DB 타입을 반환합니다.
+ */
+export function getDbType(): DbType {
+  return defaultInstance.getDbType();
+}
 
-      // 로깅 Proxy로 감싸서 반환 (원래 SQL 객체 특성 유지)
-      return createLoggingProxy(result, sqlString, stackCapture, start, mode);
-    },
-    get(_target, prop, _receiver) {
-      // verbose/silent 체이닝 지원
-      if (prop === "verbose") {
-        return createSqlProxyWithMode("verbose");
-      }
-      if (prop === "silent") {
-        return createSqlProxyWithMode("silent");
-      }
+export function getBaseSql(): SQL {
+  return defaultInstance.getBaseSql();
+}
 
-      const tx = getTx();
-      const currentSql = tx || getBaseSql();
-      return Reflect.get(currentSql, prop, currentSql);
-    },
-  });
+/**
+ * SQL 조각을 DB 방언에 맞는 SQL 문자열로 변환합니다. (로그/디버깅용)
+ * - 기본: 값을 리터럴로 인라인 (문자열 '' 이스케이프, 바이트 X'..' / '\x..', 배열 ARRAY[...] / IN 목록, 타임스탬프)
+ * - inlineParams: false면 플레이스홀더($1 / ?) SQL과 params 배열 반환
+ * - dialect 생략 시 기본 DB의 타입
+ * @example
+ * toSqlString(sql`SELECT * FROM users WHERE name = ${"O'Brien"}`);
+ * // → SELECT * FROM users WHERE name = 'O''Brien'
+ * toSqlString(sql`SELECT * FROM users WHERE seq = ${1}`, { inlineParams: false });
+ * // → { sql: 'SELECT * FROM users WHERE seq = $1', params: [1] }
+ */
+export function toSqlString(
+  fragment: unknown,
+  options: ToSqlStringOptions & { inlineParams: false }
+): ParameterizedSql;
+export function toSqlString(
+  fragment: unknown,
+  options?: ToSqlStringOptions & { inlineParams?: true }
+): string;
+export function toSqlString(
+  fragment: unknown,
+  options?: ToSqlStringOptions
+): string | ParameterizedSql;
+export function toSqlString(
+  fragment: unknown,
+  options: ToSqlStringOptions = {}
+): string | ParameterizedSql {
+  const dialect = options.dialect ?? defaultInstance.getDbType();
+  const rendered = renderSql(fragment, dialect, options.inlineParams ?? true);
+  return options.inlineParams === false ? rendered : rendered.sql;
+}
+
+export function resetConnection(): void {
+  defaultInstance.reset();
+}
+
+export function isDbConnected(): boolean {
+  return defaultInstance.isConnected();
 }
 
-const sqlProxy = createSqlProxyWithMode("default") as ExtendedSQL;
+const sqlProxy = defaultInstance.sql;
 
 export { sqlProxy as sql };
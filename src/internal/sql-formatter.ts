@@ -0,0 +1,74 @@
+import type { SqlQueryEvent } from "../types";
+
+// ============================================================
+// 기본 SQL 로그 포맷터
+// - 쿼리 이벤트를 실행 환경(prod/test/dev)에 맞는 로그 메시지로 변환
+// ============================================================
+
+/**
+ * 테스트 환경 여부 확인
+ */
+export function isTestEnv(): boolean {
+  return (
+    process.env.NODE_ENV === "test" ||
+    process.env.BUN_TEST !== undefined ||
+    process.env.JEST_WORKER_ID !== undefined
+  );
+}
+
+/**
+ * 프로덕션 환경 여부 확인
+ */
+export function isProdEnv(): boolean {
+  return process.env.STAGE === "prod" || process.env.NODE_ENV === "production";
+}
+
+/**
+ * 쿼리 에러 로그 메시지
+ * - 테스트 환경: 읽기 쉬운 여러 줄 문자열
+ * - 그 외: SQL, 에러 메시지, 스택을 담은 객체
+ */
+function formatErrorEvent(event: SqlQueryEvent, error: Error): string | object {
+  if (isTestEnv()) {
+    return `❌ [SQL ERROR] ${event.sql}\n💥 Error: ${error.message}\n📍 Stack: ${error.stack}`;
+  }
+  return {
+    sql: event.sql,
+    error: error.message,
+    stack: error.stack,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * 기본 SQL 로그 포맷터 (logging.formatter 기본값)
+ * - 프로덕션: 한 줄 SQL과 실행 시간만 (줄바꿈 제거, 스택 트레이스 제외)
+ * - 테스트: 🔍 [SQL] 접두어와 실행 시간, 호출 위치
+ * - 그 외(개발): SQL, 실행 시간, 호출 위치
+ * - 느린 쿼리는 [SLOW SQL] 접두어(테스트: 🐢 [SLOW SQL])와 실행 계획 추가
+ * - 에러는 formatErrorEvent 참고
+ */
+export function defaultSqlFormatter(event: SqlQueryEvent): string | object {
+  if (event.error) {
+    return formatErrorEvent(event, event.error);
+  }
+
+  const duration = `${event.durationMs.toFixed(2)}ms`;
+  const explain = event.explain === undefined ? undefined : JSON.stringify(event.explain);
+  const slowPrefix = event.slow ? "[SLOW SQL] " : "";
+  if (isProdEnv()) {
+    const plan = explain ? ` EXPLAIN: ${explain}` : "";
+    return `${slowPrefix}${event.sql.replace(/\s+/g, " ")} [${duration}]${plan}`;
+  }
+
+  const plan = explain ? `\n\n    Explain: ${explain}` : "";
+  const message = `${event.sql}
+
+    Duration: ${duration}${plan}
+
+${event.callsite ?? ""}`;
+  if (isTestEnv()) {
+    return `${event.slow ? "🐢 [SLOW SQL]" : "🔍 [SQL]"} ${message}`;
+  }
+  return `${slowPrefix}${message}`;
+}
@@ -0,0 +1,578 @@
+import type { SqlRedactionContext, SqlRedactionOptions } from "../types";
+import type { DbType } from "./internal-db";
+
+// ============================================================
+// SQL 문자열 렌더링 (로그/디버깅용)
+// - Bun SQL 쿼리/조각 객체를 DB 방언에 맞는 SQL 문자열로 변환
+// - Bun 내부 구현(Symbol 속성, SQLHelper)에 의존하므로 버전 업데이트 시 확인 필요
+// ============================================================
+
+/**
+ * toSqlString 옵션
+ */
+export interface ToSqlStringOptions {
+  /** SQL 방언 (기본값: 기본 DB의 타입) */
+  dialect?: DbType;
+  /** true(기본값)면 값을 리터럴로 인라인, false면 플레이스홀더($1 / ?)와 params로 분리 */
+  inlineParams?: boolean;
+}
+
+/**
+ * 플레이스홀더 형식의 SQL과 바인딩 값
+ */
+export interface ParameterizedSql {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * 렌더링 상태 (방언, 인라인 여부, 분리한 바인딩 값, 로그 마스킹)
+ */
+interface RenderState {
+  dialect: DbType;
+  inlineParams: boolean;
+  params: unknown[];
+  redaction: SqlRedactionOptions | undefined;
+  /** 지금까지 렌더링한 SQL (바인딩 값은 ?로 대체, 헬퍼 위치와 마스킹할 컬럼 판단용) */
+  skeleton: string;
+  /** 지금까지 렌더링한 바인딩 값 수 */
+  paramCount: number;
+  /** 인라인한 바인딩 값 (마스킹 적용, 로그 이벤트용) */
+  loggedParams: unknown[];
+}
+
+// 컬럼 규칙으로 마스킹한 값 (maxLength와 관계없이 REDACTED_TEXT로 출력)
+const REDACTED = Symbol("redacted");
+const REDACTED_TEXT = "[REDACTED]";
+
+// 값 앞의 비교 연산자에서 컬럼명 추출 (col = ?, "col" LIKE ?, col IN (?, ?, col = ANY(?, lower(col) = ?)
+const COMPARED_COLUMN_PATTERN =
+  /([\w$]+)["`]?\s*\)?\s*(?:NOT\s+)?(?:<>|!=|<=|>=|=|<|>|\bI?LIKE|\bIN)\s*(?:ANY\s*)?(?:\((?:\?\s*,\s*)*)?$/i;
+
+// 값을 감싼 함수 호출의 시작 부분 (crypt(?, / lower( → 벗겨 내고 앞의 비교 연산자로 추론)
+const ENCLOSING_CALL_PATTERN = /[\w$.]+\s*\((?:[^()]*,)?\s*$/;
+
+// 비교 연산자 추론에 사용할 SQL 끝부분 길이
+const COMPARED_COLUMN_TAIL_LENGTH = 200;
+
+/**
+ * Symbol 속성에서 값 추출 (안전한 폴백 포함)
+ * - Bun 내부 구현에 의존하므로 버전 업데이트 시 깨질 수 있음
+ * - try-catch로 안전하게 처리
+ */
+function getSymbolProperty(obj: object, symbolName: string): unknown {
+  try {
+    const targetSymbol = Object.getOwnPropertySymbols(obj).find(
+      (s) => s.toString() === `Symbol(${symbolName})`,
+    );
+    return targetSymbol ? (obj as Record<symbol, unknown>)[targetSymbol] : undefined;
+  } catch {
+    // Symbol 접근 실패 시 undefined 반환
+    return undefined;
+  }
+}
+
+/**
+ * Bun SQL 쿼리/조각 객체 여부 (sql`...`, sql(identifier), sql.unsafe())
+ */
+export function isSqlQuery(value: unknown): value is object {
+  return (
+    value !== null && typeof value === "object" && getSymbolProperty(value, "strings") !== undefined
+  );
+}
+
+/**
+ * Bun SQL 헬퍼 객체 여부 (sql(array), sql(object), sql(rows, ...columns))
+ */
+function isSqlHelper(value: unknown): value is { value: unknown[]; columns: string[] } {
+  if (value === null || typeof value !== "object") return false;
+  if (Object.getPrototypeOf(value) === Object.prototype) return false;
+  const helper = value as { value?: unknown; columns?: unknown };
+  return Array.isArray(helper.value) && Array.isArray(helper.columns);
+}
+
+/**
+ * 문자열 리터럴 ('' 이스케이프, MySQL은 백슬래시도 이스케이프)
+ */
+function quoteString(value: string, dialect: DbType): string {
+  const escaped = dialect === "mysql" ? value.replaceAll("\\", "\\\\") : value;
+  return `'${escaped.replaceAll("'", "''")}'`;
+}
+
+/**
+ * 식별자 인용 (MySQL: `name`, PostgreSQL: "name")
+ */
+function quoteIdentifier(name: string, dialect: DbType): string {
+  const quote = dialect === "mysql" ? "`" : '"';
+  return `${quote}${name.replaceAll(quote, quote + quote)}${quote}`;
+}
+
+/**
+ * 바이트 리터럴 (MySQL: X'..', PostgreSQL: '\x..'::bytea)
+ */
+function formatBytes(bytes: Uint8Array, dialect: DbType): string {
+  const hex = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("hex");
+  return dialect === "mysql" ? `X'${hex}'` : `'\\x${hex}'::bytea`;
+}
+
+/**
+ * 타임스탬프 리터럴 (MySQL: TIMESTAMP '..', PostgreSQL: TIMESTAMPTZ '..+00')
+ * - MySQL: 로컬 타임존 메서드 사용 (Bun SQL이 로컬 타임존으로 전송, dateStrings 변환과 동일)
+ * - PostgreSQL: UTC 메서드 사용
+ */
+function formatTimestamp(value: Date, dialect: DbType): string {
+  if (Number.isNaN(value.getTime())) return "NULL";
+  const pad = (n: number, length = 2) => n.toString().padStart(length, "0");
+  const isMySQL = dialect === "mysql";
+
+  const year = isMySQL ? value.getFullYear() : value.getUTCFullYear();
+  const month = isMySQL ? value.getMonth() + 1 : value.getUTCMonth() + 1;
+  const day = isMySQL ? value.getDate() : value.getUTCDate();
+  const hours = isMySQL ? value.getHours() : value.getUTCHours();
+  const minutes = isMySQL ? value.getMinutes() : value.getUTCMinutes();
+  const seconds = isMySQL ? value.getSeconds() : value.getUTCSeconds();
+  const millis = isMySQL ? value.getMilliseconds() : value.getUTCMilliseconds();
+
+  const text = `${pad(year, 4)}-${pad(month)}-${pad(day)} ${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+  return isMySQL ? `TIMESTAMP '${text}'` : `TIMESTAMPTZ '${text}+00'`;
+}
+
+/**
+ * 최대 길이를 넘는 문자열 자르기 (원래 길이 표시)
+ */
+function truncate(text: string, maxLength: number | undefined): string {
+  if (maxLength === undefined || text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength)}...(${text.length}자)`;
+}
+
+/**
+ * 값을 방언에 맞는 SQL 리터럴로 변환
+ * - 배열: PostgreSQL은 ARRAY[...], MySQL은 IN 목록 (...)
+ * - 그 외 객체는 JSON 문자열
+ * - maxLength를 넘는 문자열/JSON은 잘라서 출력
+ */
+function formatLiteral(value: unknown, dialect: DbType, maxLength?: number): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : quoteString(String(value), dialect);
+  }
+  if (typeof value === "bigint") {
+    return String(value);
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  if (value instanceof Date) {
+    return formatTimestamp(value, dialect);
+  }
+  if (value instanceof Uint8Array) {
+    return formatBytes(value, dialect);
+  }
+  if (value instanceof ArrayBuffer) {
+    return formatBytes(new Uint8Array(value), dialect);
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item) => formatLiteral(item, dialect, maxLength));
+    if (dialect === "mysql") {
+      return `(${items.length > 0 ? items.join(", ") : "NULL"})`;
+    }
+    return items.length > 0 ? `ARRAY[${items.join(", ")}]` : "'{}'";
+  }
+  if (typeof value === "object") {
+    return quoteString(truncate(JSON.stringify(value), maxLength), dialect);
+  }
+  return quoteString(truncate(String(value), maxLength), dialect);
+}
+
+/**
+ * 컬럼명 정리 (인용 부호와 테이블 접두어 제거)
+ */
+function normalizeColumn(name: string | undefined): string | undefined {
+  const column = name?.trim().split(".").at(-1)?.replace(/["`]/g, "");
+  return column || undefined;
+}
+
+/**
+ * INSERT 값 위치의 컬럼명 추론 ((a, b) VALUES (?, ?), (?, ...)
+ * - 값은 ?로 대체된 SQL을 끝에서부터 거슬러 올라가며 확인
+ */
+function inferInsertedColumn(skeleton: string): string | undefined {
+  const tupleStart = skeleton.lastIndexOf("(");
+  const tuple = skeleton.slice(tupleStart + 1);
+  if (tupleStart < 0 || tuple.includes(")")) return undefined;
+
+  // 앞선 튜플 건너뛰기
+  let head = skeleton.slice(0, tupleStart).trimEnd();
+  while (head.endsWith(",")) {
+    head = head.slice(0, -1).trimEnd();
+    const previousStart = head.lastIndexOf("(");
+    if (!head.endsWith(")") || previousStart < 0) return undefined;
+    head = head.slice(0, previousStart).trimEnd();
+  }
+  if (head.slice(-6).toUpperCase() !== "VALUES") return undefined;
+
+  head = head.slice(0, -6).trimEnd();
+  const columnsStart = head.lastIndexOf("(");
+  if (!head.endsWith(")") || columnsStart < 0) return undefined;
+  const columns = head.slice(columnsStart + 1, -1).split(",");
+  return normalizeColumn(columns[tuple.split(",").length - 1]);
+}
+
+/**
+ * 바인딩 값이 들어갈 컬럼명 추론 (비교/대입 연산자 또는 INSERT 값 위치)
+ * - 값이 함수 인자면 함수 호출을 벗겨 내고 다시 추론 (password = crypt(?, password))
+ */
+function inferColumn(skeleton: string): string | undefined {
+  const tail = skeleton.slice(-COMPARED_COLUMN_TAIL_LENGTH);
+  const compared = COMPARED_COLUMN_PATTERN.exec(tail);
+  if (compared) return compared[1];
+
+  const inserted = inferInsertedColumn(skeleton);
+  if (inserted) return inserted;
+
+  const call = ENCLOSING_CALL_PATTERN.exec(tail);
+  return call ? inferColumn(skeleton.slice(0, skeleton.length - call[0].length)) : undefined;
+}
+
+/**
+ * 마스킹 규칙 일치 여부 (문자열은 대소문자 무시, *는 와일드카드)
+ */
+function matchesColumnRule(column: string, rule: string | RegExp): boolean {
+  if (rule instanceof RegExp) {
+    return rule.test(column);
+  }
+  const pattern = rule
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}$`, "i").test(column);
+}
+
+/**
+ * 컬럼 규칙 중 하나라도 일치하는지 확인
+ */
+function matchesAnyColumnRule(column: string, rules: ReadonlyArray<string | RegExp>): boolean {
+  return rules.some((rule) => matchesColumnRule(column, rule));
+}
+
+/**
+ * JSON/객체 값에서 컬럼 규칙에 맞는 키의 값을 [REDACTED]로 바꾼 복사본 (중첩 객체, 배열 포함)
+ */
+function redactObjectKeys(value: unknown, rules: ReadonlyArray<string | RegExp>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactObjectKeys(item, rules));
+  }
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    value instanceof Date ||
+    value instanceof Uint8Array ||
+    value instanceof ArrayBuffer
+  ) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      matchesAnyColumnRule(key, rules) ? REDACTED_TEXT : redactObjectKeys(item, rules),
+    ]),
+  );
+}
+
+/**
+ * 로그에 출력할 값 결정 (컬럼 규칙 → JSON/객체 키 규칙 → 커스텀 마스킹 순서)
+ */
+function redactValue(
+  value: unknown,
+  redaction: SqlRedactionOptions,
+  context: SqlRedactionContext,
+): unknown {
+  const { column } = context;
+  const rules = redaction.columns ?? [];
+  if (column !== undefined && matchesAnyColumnRule(column, rules)) {
+    return REDACTED;
+  }
+  const redacted = rules.length > 0 ? redactObjectKeys(value, rules) : value;
+  return redaction.redact ? redaction.redact(redacted, context) : redacted;
+}
+
+/**
+ * 바인딩 값 렌더링 (인라인 리터럴 또는 플레이스홀더)
+ * @param column 값이 들어갈 컬럼명 (SQL 헬퍼처럼 알고 있는 경우, 없으면 앞의 SQL로 추론)
+ */
+function renderParam(value: unknown, state: RenderState, column?: string): string {
+  const index = state.paramCount++;
+  const { redaction } = state;
+  let logged = value;
+  if (state.inlineParams && redaction && (redaction.columns || redaction.redact)) {
+    logged = redactValue(value, redaction, {
+      column: column ?? inferColumn(state.skeleton),
+      index,
+    });
+  }
+  state.skeleton += "?";
+
+  if (!state.inlineParams) {
+    state.params.push(value);
+    return state.dialect === "mysql" ? "?" : `$${state.params.length}`;
+  }
+  if (logged === REDACTED) {
+    state.loggedParams.push(REDACTED_TEXT);
+    return quoteString(REDACTED_TEXT, state.dialect);
+  }
+  state.loggedParams.push(
+    typeof logged === "string" ? truncate(logged, redaction?.maxLength) : logged,
+  );
+  return formatLiteral(logged, state.dialect, redaction?.maxLength);
+}
+
+/**
+ * Bun SQL 헬퍼 렌더링 (앞의 SQL로 사용 위치를 판단)
+ * - 컬럼 없음: IN 목록 (a, b)
+ * - SET 뒤: col = a, col2 = b
+ * - IN 뒤: 첫 번째 컬럼 값의 IN 목록
+ * - 그 외: INSERT 컬럼 목록과 VALUES
+ */
+function renderHelper(helper: { value: unknown[]; columns: string[] }, state: RenderState): string {
+  const { value: items, columns } = helper;
+  const preceding = state.skeleton;
+  let result: string;
+
+  if (columns.length === 0) {
+    const column = state.redaction ? inferColumn(preceding) : undefined;
+    result = `(${items.map((item) => renderValue(item, state, column)).join(", ")})`;
+  } else if (/\bSET\s*$/i.test(preceding)) {
+    const rows = items as Record<string, unknown>[];
+    const [row = {}] = rows;
+    result = columns
+      .map(
+        (column) =>
+          `${quoteIdentifier(column, state.dialect)} = ${renderValue(row[column], state, column)}`,
+      )
+      .join(", ");
+  } else if (/\bIN\s*$/i.test(preceding)) {
+    const rows = items as Record<string, unknown>[];
+    const [column = ""] = columns;
+    result = `(${rows.map((row) => renderValue(row[column], state, column)).join(", ")})`;
+  } else {
+    const rows = items as Record<string, unknown>[];
+    const columnList = columns.map((column) => quoteIdentifier(column, state.dialect)).join(", ");
+    const tuples = rows.map(
+      (row) => `(${columns.map((column) => renderValue(row[column], state, column)).join(", ")})`,
+    );
+    result = `(${columnList}) VALUES ${tuples.join(", ")}`;
+  }
+
+  // 헬퍼 전체를 하나의 값으로 취급
+  state.skeleton = `${preceding}?`;
+  return result;
+}
+
+/**
+ * sql.unsafe(query, params) 렌더링 ($n 파라미터만 치환)
+ */
+function renderUnsafe(query: string, values: readonly unknown[], state: RenderState): string {
+  return query
+    .split(/\$(\d+)/)
+    .map((part, i) => {
+      if (i % 2 === 0) {
+        state.skeleton += part;
+        return part;
+      }
+      const index = Number(part);
+      if (index >= 1 && index <= values.length) {
+        return renderValue(values[index - 1], state);
+      }
+      state.skeleton += `$${part}`;
+      return `$${part}`;
+    })
+    .join("");
+}
+
+/**
+ * Bun SQL 쿼리/조각 렌더링 (중첩 조각은 재귀)
+ */
+function renderQuery(query: object, state: RenderState): string {
+  const strings = getSymbolProperty(query, "strings");
+  const rawValues = getSymbolProperty(query, "values");
+  const values = Array.isArray(rawValues) ? rawValues : [];
+
+  // sql(identifier), sql.unsafe(): 이미 SQL 문자열
+  if (typeof strings === "string") {
+    return renderUnsafe(strings, values, state);
+  }
+  if (!Array.isArray(strings)) {
+    return "[SQL Fragment]";
+  }
+  return renderTemplate(strings, values, state);
+}
+
+/**
+ * 템플릿 리터럴(strings, values) 렌더링
+ */
+function renderTemplate(
+  strings: readonly string[],
+  values: readonly unknown[],
+  state: RenderState,
+): string {
+  let result = strings[0] ?? "";
+  state.skeleton += result;
+  values.forEach((value, index) => {
+    const text = strings[index + 1] ?? "";
+    result += renderValue(value, state);
+    result += text;
+    state.skeleton += text;
+  });
+  return result;
+}
+
+/**
+ * 템플릿에 들어간 값 렌더링 (SQL 조각, SQL 헬퍼, 바인딩 값)
+ */
+function renderValue(value: unknown, state: RenderState, column?: string): string {
+  if (isSqlQuery(value)) {
+    return renderQuery(value, state);
+  }
+  if (isSqlHelper(value)) {
+    return renderHelper(value, state);
+  }
+  if (value instanceof Promise) {
+    // SQL 추출 실패 시
+    return "[SQL Fragment]";
+  }
+  return renderParam(value, state, column);
+}
+
+/**
+ * 렌더링 상태 생성 (parameterizedOnly 마스킹 설정이면 값을 인라인하지 않음)
+ */
+function createRenderState(
+  dialect: DbType,
+  inlineParams: boolean,
+  redaction: SqlRedactionOptions | undefined,
+): RenderState {
+  return {
+    dialect,
+    inlineParams: inlineParams && !redaction?.parameterizedOnly,
+    params: [],
+    redaction,
+    skeleton: "",
+    paramCount: 0,
+    loggedParams: [],
+  };
+}
+
+/**
+ * 템플릿 리터럴 호출 인자를 로그용 SQL로 변환 (마스킹 적용)
+ * - sql: 값이 인라인된 SQL (parameterizedOnly면 플레이스홀더)
+ * - params: 로그에 남길 바인딩 값 (parameterizedOnly면 빈 배열)
+ */
+export function renderSqlTemplate(
+  strings: readonly string[],
+  values: readonly unknown[],
+  dialect: DbType,
+  redaction?: SqlRedactionOptions,
+): ParameterizedSql {
+  const state = createRenderState(dialect, true, redaction);
+  const sql = renderTemplate(strings, values, state).trim();
+  return { sql, params: state.loggedParams };
+}
+
+/**
+ * 템플릿 리터럴 호출 인자를 플레이스홀더 SQL과 바인딩 값으로 변환 (EXPLAIN 재실행용)
+ */
+export function parameterizeSqlTemplate(
+  strings: readonly string[],
+  values: readonly unknown[],
+  dialect: DbType,
+): ParameterizedSql {
+  const state = createRenderState(dialect, false, undefined);
+  const sql = renderTemplate(strings, values, state).trim();
+  return { sql, params: state.params };
+}
+
+/**
+ * SQL 쿼리/조각 객체를 SQL 문자열로 변환
+ * - inlineParams가 false면 값을 플레이스홀더로 바꾸고 params로 분리
+ * - redaction을 넘기면 로그용으로 값을 마스킹
+ */
+export function renderSql(
+  fragment: unknown,
+  dialect: DbType,
+  inlineParams: boolean,
+  redaction?: SqlRedactionOptions,
+): ParameterizedSql {
+  const state = createRenderState(dialect, inlineParams, redaction);
+  const sql = renderValue(fragment, state).trim();
+  return { sql, params: state.params };
+}
+
+// ============================================================
+// SELECT 목록 변경 (offset 페이징의 window 카운트용)
+// ============================================================
+
+// 쿼리 시작의 SELECT 키워드와 바로 뒤의 * (MySQL은 한정하지 않은 *가 목록 맨 앞에 있어야 함)
+const SELECT_LIST_START = /^(\s*SELECT\s+)(\*(?=[\s,]|$))?/i;
+
+// SELECT 목록 앞에 컬럼을 추가하면 의미가 달라지거나 문법 오류가 나는 수식어
+const SELECT_MODIFIER = /^(?:DISTINCT|DISTINCTROW|ALL|HIGH_PRIORITY|STRAIGHT_JOIN|SQL_\w+)\b/i;
+
+// 최상위 SELECT 하나로 끝나지 않는 쿼리 (집합 연산)
+const SET_OPERATION = /\b(?:UNION|INTERSECT|EXCEPT)\b/i;
+
+/**
+ * 쿼리 템플릿의 첫 SELECT 목록에 컬럼을 추가합니다. (앞에 중첩된 조각이 있으면 재귀)
+ */
+function prependSelectColumn<T>(
+  query: unknown,
+  column: string,
+  tag: (strings: TemplateStringsArray, ...values: unknown[]) => T,
+): T | undefined {
+  const strings = isSqlQuery(query) ? getSymbolProperty(query, "strings") : undefined;
+  const rawValues = isSqlQuery(query) ? getSymbolProperty(query, "values") : undefined;
+  if (!Array.isArray(strings)) {
+    return undefined;
+  }
+  const values = Array.isArray(rawValues) ? rawValues : [];
+  const rebuild = (nextStrings: string[], nextValues: unknown[]) =>
+    tag(Object.assign([...nextStrings], { raw: [...nextStrings] }), ...nextValues);
+
+  const [first = "", ...rest] = strings as string[];
+  if (first.trim() === "" && values.length > 0) {
+    const inner = prependSelectColumn(values[0], column, tag);
+    return inner === undefined ? undefined : rebuild(strings, [inner, ...values.slice(1)]);
+  }
+
+  const match = SELECT_LIST_START.exec(first);
+  if (!match) {
+    return undefined;
+  }
+  const [head, keyword = "", star] = match;
+  const remainder = first.slice(head.length);
+  if (!star && SELECT_MODIFIER.test(remainder)) {
+    return undefined;
+  }
+  const selectList = star ? `${keyword}*, ${column}` : `${keyword}${column}, `;
+  return rebuild([selectList + remainder, ...rest], values);
+}
+
+/**
+ * 최상위 SELECT 목록에 컬럼을 추가한 쿼리를 만듭니다. (ORDER BY는 그대로 유지)
+ * - SELECT로 시작하는 쿼리만 지원 (sql`${base} ORDER BY ...`처럼 앞에 중첩된 조각 포함)
+ * - WITH, DISTINCT, UNION 등 추가할 수 없는 쿼리면 undefined
+ * @param column 추가할 SQL 식 (예: COUNT(*) OVER() AS "total")
+ * @param tag 새 쿼리를 만들 SQL 템플릿 태그
+ */
+export function addSelectColumn<T>(
+  query: unknown,
+  column: string,
+  dialect: DbType,
+  tag: (strings: TemplateStringsArray, ...values: unknown[]) => T,
+): T | undefined {
+  if (!isSqlQuery(query) || SET_OPERATION.test(renderSql(query, dialect, false).sql)) {
+    return undefined;
+  }
+  return prependSelectColumn(query, column, tag);
+}
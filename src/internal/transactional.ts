@@ -1,54 +1,697 @@
-import { dbContextStorage, getDbContext, getTx, type TxType } from './context';
-import { getBaseSql } from './internal-db';
+import type { SQL, TransactionSQL } from 'bun';
+import {
+  TransactionIsolationError,
+  TransactionPropagationError,
+  TransactionTimeoutError,
+} from '../errors';
+import type { TransactionHook, TransactionHooks, TransactionState, TxType } from './context';
+import { type DbInstance, getDbInstance } from './internal-db';
 
-export function Transactional() {
-  return (_target: unknown, _propertyKey: string, descriptor: PropertyDescriptor) => {
-    const originalMethod = descriptor.value;
+// ============================================================
+// 타입 정의
+// ============================================================
 
-    descriptor.value = async function (...args: unknown[]) {
-      // 1. 이미 트랜잭션이 활성화되어 있다면, 기존 트랜잭션을 재사용합니다 (중첩 트랜잭션 / 전파)
-      if (getTx()) {
-        return originalMethod.apply(this, args);
+/**
+ * 트랜잭션 전파 방식
+ * - REQUIRED (기본값): 트랜잭션이 있으면 참여, 없으면 새로 시작
+ * - REQUIRES_NEW: 항상 새 트랜잭션 시작 (기존 트랜잭션과 독립적으로 커밋/롤백)
+ * - NESTED: 트랜잭션이 있으면 savepoint로 실행 (실패 시 savepoint까지만 롤백), 없으면 새로 시작
+ * - MANDATORY: 트랜잭션이 있으면 참여, 없으면 에러
+ * - NEVER: 트랜잭션 없이 실행, 트랜잭션 안에서 호출하면 에러
+ * - SUPPORTS: 트랜잭션이 있으면 참여, 없으면 트랜잭션 없이 실행
+ */
+export type Propagation =
+  | 'REQUIRED'
+  | 'REQUIRES_NEW'
+  | 'NESTED'
+  | 'MANDATORY'
+  | 'NEVER'
+  | 'SUPPORTS';
+
+/**
+ * 트랜잭션 격리 수준
+ */
+export type IsolationLevel =
+  | 'READ UNCOMMITTED'
+  | 'READ COMMITTED'
+  | 'REPEATABLE READ'
+  | 'SERIALIZABLE';
+
+const ISOLATION_LEVELS: readonly IsolationLevel[] = [
+  'READ UNCOMMITTED',
+  'READ COMMITTED',
+  'REPEATABLE READ',
+  'SERIALIZABLE',
+];
+
+/**
+ * 트랜잭션 재시도 정책
+ * - 새 트랜잭션을 시작할 때만 적용 (가장 바깥 트랜잭션, REQUIRES_NEW)
+ * - 기존 트랜잭션에 참여한 경우 바깥 트랜잭션이 재시도
+ * - 대기 시간: min(maxDelayMs, baseDelayMs * 2^(시도-1)) 범위에서 무작위 (full jitter)
+ */
+export interface TransactionRetryOptions {
+  /** 최대 시도 횟수 (첫 시도 포함, 기본값: 3) */
+  maxAttempts?: number;
+  /** 첫 재시도 대기 시간 기준값 (ms, 기본값: 50) */
+  baseDelayMs?: number;
+  /** 최대 대기 시간 (ms, 기본값: 1000) */
+  maxDelayMs?: number;
+  /** 재시도 여부 판단 (기본값: isRetryableTransactionError) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<TransactionRetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 50,
+  maxDelayMs: 1000,
+  shouldRetry: (error) => isRetryableTransactionError(error),
+};
+
+/**
+ * 재시도 가능한 에러 코드
+ * - MySQL: 1213 (데드락), 1205 (락 대기 시간 초과)
+ * - PostgreSQL: 40001 (serialization_failure), 40P01 (deadlock_detected)
+ */
+const RETRYABLE_ERROR_CODES = new Set(['1213', '1205', '40001', '40P01']);
+
+/**
+ * 트랜잭션을 다시 실행하면 성공할 수 있는 에러인지 확인합니다. (데드락, 직렬화 실패 등)
+ */
+export function isRetryableTransactionError(error: unknown): boolean {
+  const errno = (error as { errno?: unknown } | null)?.errno;
+  return errno !== undefined && RETRYABLE_ERROR_CODES.has(String(errno));
+}
+
+/**
+ * 트랜잭션 옵션
+ */
+export interface TransactionalOptions {
+  /** 트랜잭션을 시작할 데이터베이스 이름 (생략 시 기본 DB, registerDb()로 등록한 이름 사용 가능) */
+  db?: string;
+  /** 트랜잭션 전파 방식 (기본값: 'REQUIRED') */
+  propagation?: Propagation;
+  /** 격리 수준 (생략 시 DB 기본값, 기존 트랜잭션에 참여할 때 다른 수준이면 에러) */
+  isolation?: IsolationLevel;
+  /** 읽기 전용 트랜잭션 여부 (새 트랜잭션을 시작할 때만 적용) */
+  readOnly?: boolean;
+  /** 데드락/직렬화 실패 시 메소드 전체를 새 트랜잭션으로 재실행 (true면 기본 정책) */
+  retry?: boolean | TransactionRetryOptions;
+  /** 트랜잭션 제한 시간 (ms, 초과 시 실행 중인 쿼리 취소/롤백 후 TransactionTimeoutError, 새 트랜잭션을 시작할 때만 적용) */
+  timeout?: number;
+  /** 취소 신호 (abort 시 실행 중인 쿼리 취소/롤백 후 TransactionTimeoutError, 새 트랜잭션을 시작할 때만 적용) */
+  signal?: AbortSignal;
+}
+
+// ============================================================
+// 트랜잭션 실행
+// ============================================================
+
+/**
+ * 격리 수준/읽기 전용/타임아웃 옵션을 DB 타입에 맞는 구문으로 적용하여 트랜잭션을 시작합니다.
+ * - PostgreSQL: BEGIN ISOLATION LEVEL ..., READ ONLY → SET LOCAL statement_timeout
+ * - MySQL: SET TRANSACTION ISOLATION LEVEL ... / SET SESSION innodb_lock_wait_timeout, max_execution_time
+ *   → START TRANSACTION READ ONLY (같은 연결, 종료 후 세션 설정 복원)
+ */
+async function startTransaction<T>(
+  db: DbInstance,
+  options: TransactionalOptions,
+  fn: (tx: TxType) => Promise<T>,
+): Promise<T> {
+  const { isolation, readOnly, timeout } = options;
+  if (isolation && !ISOLATION_LEVELS.includes(isolation)) {
+    throw new Error(`지원하지 않는 격리 수준입니다: ${isolation}`);
+  }
+  if (timeout !== undefined && !(Number.isFinite(timeout) && timeout > 0)) {
+    throw new Error(`timeout은 0보다 큰 숫자(ms)여야 합니다: ${timeout}`);
+  }
+
+  const baseSql = db.getBaseSql();
+  const begin = (target: SQL, mode: string | undefined, run = fn): Promise<T> =>
+    (mode ? target.begin(mode, run) : target.begin(run)) as Promise<T>;
+
+  if (db.getDbType() === 'mysql') {
+    const mode = readOnly ? 'READ ONLY' : undefined;
+    const settings = [
+      isolation && `SET TRANSACTION ISOLATION LEVEL ${isolation}`,
+      timeout &&
+        `SET SESSION innodb_lock_wait_timeout = ${Math.max(1, Math.ceil(timeout / 1000))}, max_execution_time = ${Math.ceil(timeout)}`,
+    ].filter((setting): setting is string => Boolean(setting));
+    if (settings.length === 0) {
+      return begin(baseSql, mode);
+    }
+
+    // MySQL은 START TRANSACTION에 격리 수준/타임아웃을 지정할 수 없으므로 같은 연결에서 먼저 설정
+    const reserved = await baseSql.reserve();
+    try {
+      for (const setting of settings) {
+        await reserved.unsafe(setting);
+      }
+      return await begin(reserved, mode);
+    } finally {
+      if (timeout) {
+        // 풀로 돌아가는 연결에 세션 설정이 남지 않도록 복원
+        await reserved
+          .unsafe('SET SESSION innodb_lock_wait_timeout = DEFAULT, max_execution_time = DEFAULT')
+          .catch(() => undefined);
+      }
+      reserved.release();
+    }
+  }
+
+  const modes = [isolation && `ISOLATION LEVEL ${isolation}`, readOnly && 'READ ONLY'].filter(
+    Boolean,
+  );
+  const run = timeout
+    ? async (tx: TxType) => {
+        await tx.unsafe(`SET LOCAL statement_timeout = ${Math.ceil(timeout)}`);
+        return fn(tx);
       }
+    : fn;
+  return begin(baseSql, modes.length > 0 ? modes.join(', ') : undefined, run);
+}
 
-      // TDD 모드 체크: 환경변수가 'true'면 자동 롤백
-      const isTddMode = process.env.TDD_MODE === 'true';
+/**
+ * 타임아웃/취소 시 롤백할 수 있도록 함수 실행을 제한합니다.
+ * - 시간 초과 또는 signal 취소 시 TransactionTimeoutError로 즉시 reject (트랜잭션 롤백)
+ * - 실행 중인 쿼리도 취소하여 롤백이 쿼리 완료를 기다리지 않도록 함
+ * - 트랜잭션 상태에 에러를 기록하여 같은 컨텍스트의 후속 쿼리를 거부
+ */
+function runWithDeadline<T>(
+  db: DbInstance,
+  fn: () => Promise<T>,
+  options: TransactionalOptions,
+  state: TransactionState,
+): Promise<T> {
+  const { timeout, signal } = options;
+  if (!timeout && !signal) {
+    return fn();
+  }
+  if (signal?.aborted) {
+    state.abortError = createAbortError(signal);
+    return Promise.reject(state.abortError);
+  }
 
-      // 현재 컨텍스트의 설정 가져오기 (로깅 설정 등 유지)
-      const currentContext = getDbContext();
+  const startedAt = performance.now();
+  return new Promise<T>((resolve, reject) => {
+    const abort = (error: TransactionTimeoutError) => {
+      state.abortError = error;
+      cleanup();
+      if (state.connectionId !== undefined) {
+        void db.cancelBackendQuery(state.connectionId, () => !state.finished);
+      }
+      reject(error);
+    };
+    const onAbort = () => abort(createAbortError(signal));
+    const timer = timeout ? setTimeout(() => abort(createTimeoutError(timeout)), timeout) : undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-      // 2. 새로운 트랜잭션을 시작합니다 (lazy initialization)
-      const baseSql = getBaseSql();
-      return baseSql
-        .begin(async (tx: TxType) => {
-          // 3. AsyncLocalStorage에 트랜잭션 객체를 저장합니다 (기존 컨텍스트 설정 유지)
-          return dbContextStorage.run({ ...currentContext, tx }, async () => {
-            // 4. 원래 메소드를 실행합니다
-            const result = await originalMethod.apply(this, args);
+    fn().then(
+      (result) => {
+        cleanup();
+        resolve(result);
+      },
+      (error: unknown) => {
+        cleanup();
+        // DB의 statement 타임아웃이 먼저 발생한 경우도 타임아웃 에러로 통일
+        const timedOut = timeout !== undefined && performance.now() - startedAt >= timeout;
+        reject(timedOut ? createTimeoutError(timeout, error) : error);
+      },
+    );
+  });
+}
 
-            // 5. TDD 모드에서는 강제 롤백
-            if (isTddMode) {
-              throw { __tddRollback: true, result };
+function createTimeoutError(timeout: number, cause?: unknown): TransactionTimeoutError {
+  return new TransactionTimeoutError(
+    `트랜잭션이 ${timeout}ms 안에 끝나지 않아 롤백되었습니다.`,
+    timeout,
+    { cause },
+  );
+}
+
+function createAbortError(signal: AbortSignal | undefined): TransactionTimeoutError {
+  return new TransactionTimeoutError('트랜잭션이 취소되어 롤백되었습니다.', undefined, {
+    cause: signal?.reason,
+  });
+}
+
+/**
+ * 트랜잭션 연결의 ID를 조회합니다. (타임아웃/취소 시 실행 중인 쿼리 취소용)
+ */
+async function getConnectionId(db: DbInstance, tx: TxType): Promise<number> {
+  const [row] =
+    db.getDbType() === 'mysql'
+      ? await tx`SELECT CONNECTION_ID() AS id`
+      : await tx`SELECT pg_backend_pid() AS id`;
+  return Number(row.id);
+}
+
+/**
+ * 롤백 전용 트랜잭션을 끝내기 위한 신호 (withRollback 내부용)
+ * - Bun SQL은 콜백이 reject되어야 롤백하므로 결과를 담아 던진 뒤 다시 꺼냄
+ */
+class RollbackSignal<T> extends Error {
+  constructor(readonly result: T) {
+    super('롤백 전용 트랜잭션 종료');
+    this.name = 'RollbackSignal';
+  }
+}
+
+/**
+ * 새 트랜잭션을 시작하고 함수를 실행합니다.
+ * - 기존 트랜잭션이 있어도 새 연결로 시작 (REQUIRES_NEW)
+ * - 커밋 직전 beforeCommit 훅, 커밋/롤백 후 afterCommit/afterRollback 훅 실행
+ * @param rollbackOnly true면 함수가 성공해도 항상 롤백 (withRollback)
+ */
+async function beginTransaction<T>(
+  db: DbInstance,
+  options: TransactionalOptions,
+  fn: () => Promise<T>,
+  rollbackOnly = false,
+): Promise<T> {
+  // 현재 컨텍스트의 설정 가져오기 (로깅 설정 등 유지)
+  const currentContext = db.getContext();
+  const hooks = createTransactionHooks();
+  const state: TransactionState = {};
+
+  // 이미 취소된 signal이면 연결을 사용하지 않고 바로 종료
+  if (options.signal?.aborted) {
+    throw createAbortError(options.signal);
+  }
+
+  let result: T;
+  try {
+    // 새로운 트랜잭션을 시작합니다 (lazy initialization)
+    result = await startTransaction(db, options, async (tx: TxType) => {
+      if (options.timeout || options.signal) {
+        state.connectionId = await getConnectionId(db, tx);
+      }
+
+      // AsyncLocalStorage에 트랜잭션 객체를 저장합니다 (기존 컨텍스트 설정 유지)
+      const context = {
+        ...currentContext,
+        tx,
+        txIsolation: options.isolation,
+        txHooks: hooks,
+        txState: state,
+        rollbackOnly,
+      };
+      return db.contextStorage.run(context, () =>
+        runWithDeadline(
+          db,
+          async () => {
+            // 원래 메소드를 실행합니다
+            const result = await fn();
+
+            // 롤백 전용이면 커밋하지 않고 결과를 담아 롤백
+            if (rollbackOnly) {
+              throw new RollbackSignal(result);
             }
 
+            // 커밋 직전 훅 (트랜잭션 안에서 실행, 에러 시 롤백)
+            await runHooks(hooks.beforeCommit);
+
             return result;
-          });
-        })
-        .catch((error: unknown) => {
-          // TDD 모드 롤백인 경우, 결과 반환
-          if (
-            error &&
-            typeof error === 'object' &&
-            '__tddRollback' in error &&
-            'result' in error
-          ) {
-            return (error as unknown as { __tddRollback: boolean; result: unknown })
-              .result;
-          }
-          throw error;
-        });
-    };
+          },
+          options,
+          state,
+        ),
+      );
+    });
+  } catch (error) {
+    state.finished = true;
+    await runAfterHooks(db, 'afterRollback', hooks.afterRollback);
+
+    if (error instanceof RollbackSignal) {
+      return error.result as T;
+    }
+    throw error;
+  }
+
+  state.finished = true;
+
+  // 커밋 시점을 쓰기 시각으로 기록 (sql`...`로 직접 쓴 경우도 커밋 후 조회는 primary로)
+  if (!options.readOnly) {
+    db.markWrite();
+  }
+  await runAfterHooks(db, 'afterCommit', hooks.afterCommit);
+  return result;
+}
 
-    return descriptor;
+/**
+ * 새 트랜잭션을 시작합니다. (가장 바깥 트랜잭션, REQUIRES_NEW)
+ * - retry 옵션이 있으면 재시도 가능한 에러에서 함수 전체를 새 트랜잭션으로 재실행
+ */
+async function beginNewTransaction<T>(
+  db: DbInstance,
+  options: TransactionalOptions,
+  fn: () => Promise<T>,
+): Promise<T> {
+  if (!options.retry) {
+    return beginTransaction(db, options, fn);
+  }
+
+  const policy = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...(options.retry === true ? {} : options.retry),
   };
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await beginTransaction(db, options, fn);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !policy.shouldRetry(error, attempt)) {
+        throw error;
+      }
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.round(Math.random() * backoff);
+      db.logTransactionRetry(attempt + 1, policy.maxAttempts, delayMs, error);
+      await Bun.sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * 현재 트랜잭션의 격리 수준
+ * - 시작 시 지정하지 않았으면(DB 기본값) DB에서 조회해 컨텍스트에 기록
+ */
+async function getTransactionIsolation(db: DbInstance, tx: TxType): Promise<IsolationLevel> {
+  const context = db.getContext();
+  if (context?.txIsolation) {
+    return context.txIsolation;
+  }
+
+  // MySQL: REPEATABLE-READ, PostgreSQL: repeatable read
+  const [row] =
+    db.getDbType() === 'mysql'
+      ? await tx`SELECT @@transaction_isolation AS level`
+      : await tx`SHOW transaction_isolation`;
+  const level = String(Object.values(row ?? {})[0])
+    .replace('-', ' ')
+    .toUpperCase() as IsolationLevel;
+  if (context) {
+    context.txIsolation = level;
+  }
+  return level;
+}
+
+/**
+ * 기존 트랜잭션에 참여할 수 있는지 확인합니다.
+ * - 격리 수준은 트랜잭션 시작 시에만 정할 수 있으므로 다른 수준을 요청하면 에러
+ * - 바깥 트랜잭션이 격리 수준을 지정하지 않았으면 DB의 실제 격리 수준과 비교
+ */
+async function assertJoinable(
+  db: DbInstance,
+  tx: TxType,
+  options: TransactionalOptions,
+): Promise<void> {
+  if (!options.isolation) {
+    return;
+  }
+  const current = await getTransactionIsolation(db, tx);
+  if (options.isolation !== current) {
+    throw new TransactionIsolationError(options.isolation, current);
+  }
+}
+
+/**
+ * 현재 트랜잭션에 savepoint를 만들고 함수를 실행합니다. (NESTED)
+ * - 함수가 실패하면 savepoint까지만 롤백되고 에러는 그대로 전달됨
+ * - savepoint 안에서 등록한 훅은 성공 시 바깥 트랜잭션으로 넘기고, 롤백 시 afterRollback만 실행
+ */
+async function runInSavepoint<T>(db: DbInstance, tx: TxType, fn: () => Promise<T>): Promise<T> {
+  const currentContext = db.getContext();
+  const hooks = createTransactionHooks();
+
+  let result: T;
+  try {
+    result = await (tx as TransactionSQL).savepoint((sp) =>
+      db.contextStorage.run({ ...currentContext, tx: sp, txHooks: hooks }, fn),
+    );
+  } catch (error) {
+    await runAfterHooks(db, 'afterRollback', hooks.afterRollback);
+    throw error;
+  }
+
+  const parentHooks = currentContext?.txHooks;
+  if (parentHooks) {
+    parentHooks.beforeCommit.push(...hooks.beforeCommit);
+    parentHooks.afterCommit.push(...hooks.afterCommit);
+    parentHooks.afterRollback.push(...hooks.afterRollback);
+  }
+  return result;
+}
+
+/**
+ * 전파 방식에 따라 함수를 트랜잭션 안에서 실행합니다.
+ * - @Transactional, withTransaction(), DB.transaction()이 공통으로 사용
+ */
+export async function runTransactional<T>(
+  db: DbInstance,
+  options: TransactionalOptions,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const propagation = options.propagation ?? 'REQUIRED';
+  const tx = db.getTx();
+
+  switch (propagation) {
+    case 'MANDATORY':
+      if (!tx) {
+        throw new TransactionPropagationError(
+          propagation,
+          '[MANDATORY] 활성화된 트랜잭션이 없습니다. 트랜잭션 안에서 호출해주세요.',
+        );
+      }
+      await assertJoinable(db, tx, options);
+      return fn();
+    case 'NEVER':
+      if (tx) {
+        throw new TransactionPropagationError(
+          propagation,
+          '[NEVER] 트랜잭션 안에서 호출할 수 없습니다.',
+        );
+      }
+      return fn();
+    case 'SUPPORTS':
+      if (tx) {
+        await assertJoinable(db, tx, options);
+      }
+      return fn();
+    case 'REQUIRES_NEW':
+      if (!tx) {
+        return beginNewTransaction(db, options, fn);
+      }
+      // 롤백 전용 트랜잭션(withRollback) 안에서는 새 연결 대신 savepoint로 실행하여 함께 롤백
+      return db.getContext()?.rollbackOnly
+        ? runInSavepoint(db, tx, fn)
+        : beginNewTransaction(db, options, fn);
+    case 'NESTED':
+      if (!tx) {
+        return beginNewTransaction(db, options, fn);
+      }
+      await assertJoinable(db, tx, options);
+      return runInSavepoint(db, tx, fn);
+    default:
+      // REQUIRED: 이미 트랜잭션이 활성화되어 있다면, 기존 트랜잭션을 재사용합니다 (중첩 트랜잭션 / 전파)
+      if (!tx) {
+        return beginNewTransaction(db, options, fn);
+      }
+      await assertJoinable(db, tx, options);
+      return fn();
+  }
+}
+
+/**
+ * 함수를 트랜잭션 안에서 실행합니다. (@Transactional과 같은 옵션과 동작)
+ * @example
+ * const total = await withTransaction(
+ *   async () => DB.maybeOne(sql`SELECT SUM(balance) AS total FROM accounts`),
+ *   { isolation: 'REPEATABLE READ', readOnly: true },
+ * );
+ */
+export function withTransaction<T>(
+  fn: () => Promise<T>,
+  options: TransactionalOptions = {},
+): Promise<T> {
+  return runTransactional(getDbInstance(options.db), options, fn);
+}
+
+/**
+ * 함수를 항상 롤백되는 트랜잭션 안에서 실행합니다. (테스트용)
+ * - 안에서 실행하는 sql, DB 헬퍼, @Transactional, DB.transaction()은 모두 이 트랜잭션에 참여
+ * - REQUIRES_NEW도 새 트랜잭션 대신 savepoint로 실행되어 함께 롤백됨
+ * - 커밋이 없으므로 onBeforeCommit/onAfterCommit 훅은 실행되지 않고 onAfterRollback 훅만 실행
+ * @example
+ * test('주문 생성', () =>
+ *   withRollback(async () => {
+ *     await OrderService.create(order);
+ *     expect(await DB.many(sql`SELECT * FROM orders`)).toHaveLength(1);
+ *   }));
+ */
+export function withRollback<T>(fn: () => Promise<T>, options: { db?: string } = {}): Promise<T> {
+  return beginTransaction(getDbInstance(options.db), {}, fn, true);
+}
+
+// ============================================================
+// 트랜잭션 훅
+// ============================================================
+
+function createTransactionHooks(): TransactionHooks {
+  return { beforeCommit: [], afterCommit: [], afterRollback: [] };
+}
+
+/**
+ * 훅을 등록 순서대로 실행합니다. (실행 중 추가된 훅도 포함)
+ */
+async function runHooks(hooks: TransactionHook[]): Promise<void> {
+  for (let i = 0; i < hooks.length; i++) {
+    await hooks[i]?.();
+  }
+}
+
+/**
+ * 커밋/롤백 이후 훅을 실행합니다.
+ * - 이미 커밋/롤백된 결과를 바꾸지 않도록 에러는 던지지 않고 로깅
+ */
+async function runAfterHooks(
+  db: DbInstance,
+  phase: 'afterCommit' | 'afterRollback',
+  hooks: TransactionHook[],
+): Promise<void> {
+  for (let i = 0; i < hooks.length; i++) {
+    try {
+      await hooks[i]?.();
+    } catch (error) {
+      db.logTransactionHookError(phase, error);
+    }
+  }
+}
+
+/**
+ * 현재 트랜잭션에 훅을 등록합니다. (트랜잭션이 없으면 즉시 실행)
+ * - 트랜잭션 안에서는 첫 await 전에 동기적으로 등록되므로 반환한 Promise는 바로 완료됨
+ */
+async function registerHook(
+  phase: keyof TransactionHooks,
+  hook: TransactionHook,
+  dbName?: string,
+): Promise<void> {
+  const db = getDbInstance(dbName);
+  const hooks = db.getTx() ? db.getContext()?.txHooks : undefined;
+  if (hooks) {
+    hooks[phase].push(hook);
+    return;
+  }
+
+  if (phase === 'beforeCommit') {
+    await hook();
+  } else {
+    await runAfterHooks(db, phase, [hook]);
+  }
+}
+
+/**
+ * 현재 트랜잭션이 커밋되기 직전에 실행할 함수를 등록합니다.
+ * - 트랜잭션 안에서 실행되며, 에러가 발생하면 트랜잭션이 롤백됨
+ * - 트랜잭션이 없으면 즉시 실행하고 에러는 반환한 Promise로 전달 (반드시 await)
+ * @param dbName 데이터베이스 이름 (생략 시 기본 DB)
+ * @example
+ * await onBeforeCommit(async () => {
+ *   await sql`UPDATE users SET order_count = order_count + 1 WHERE id = ${userId}`;
+ * });
+ */
+export function onBeforeCommit(hook: TransactionHook, dbName?: string): Promise<void> {
+  return registerHook('beforeCommit', hook, dbName);
+}
+
+/**
+ * 현재 트랜잭션이 커밋된 후에 실행할 함수를 등록합니다. (이벤트 발행, 캐시 무효화 등)
+ * - 에러는 로거로 기록되고 호출자에게 전달되지 않음
+ * - 트랜잭션이 없으면 즉시 실행 (반환한 Promise는 훅 실행이 끝나면 완료)
+ * @param dbName 데이터베이스 이름 (생략 시 기본 DB)
+ * @example
+ * @Transactional()
+ * static async createOrder(order: Order) {
+ *   await DB.insert(sql`INSERT INTO orders ...`);
+ *   await onAfterCommit(() => eventBus.publish('order.created', order));
+ * }
+ */
+export function onAfterCommit(hook: TransactionHook, dbName?: string): Promise<void> {
+  return registerHook('afterCommit', hook, dbName);
+}
+
+/**
+ * 현재 트랜잭션이 롤백된 후에 실행할 함수를 등록합니다.
+ * - 에러는 로거로 기록되고 호출자에게 전달되지 않음
+ * - 트랜잭션이 없으면 즉시 실행 (반환한 Promise는 훅 실행이 끝나면 완료)
+ * @param dbName 데이터베이스 이름 (생략 시 기본 DB)
+ */
+export function onAfterRollback(hook: TransactionHook, dbName?: string): Promise<void> {
+  return registerHook('afterRollback', hook, dbName);
+}
+
+// ============================================================
+// 데코레이터
+// ============================================================
+
+/**
+ * 트랜잭션 메소드 데코레이터
+ * - TC39 표준 데코레이터와 legacy 데코레이터(experimentalDecorators) 모두 지원
+ */
+export interface TransactionalDecorator {
+  // TC39 표준 데코레이터
+  <This, Args extends unknown[], Return>(
+    value: (this: This, ...args: Args) => Promise<Return>,
+    context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Promise<Return>>,
+  ): (this: This, ...args: Args) => Promise<Return>;
+  // legacy 데코레이터 (experimentalDecorators)
+  (target: unknown, propertyKey: string | symbol, descriptor: PropertyDescriptor): PropertyDescriptor;
+}
+
+/**
+ * TC39 표준 데코레이터 호출인지 확인 (두 번째 인자가 context 객체)
+ */
+function isDecoratorContext(value: unknown): value is ClassMethodDecoratorContext {
+  return typeof value === 'object' && value !== null && 'kind' in value;
+}
+
+/**
+ * 트랜잭션 데코레이터
+ * @param dbNameOrOptions 데이터베이스 이름 또는 트랜잭션 옵션 (생략 시 기본 DB, REQUIRED)
+ * @example
+ * @Transactional()
+ * @Transactional('analytics')
+ * @Transactional({ propagation: 'REQUIRES_NEW' })
+ * @Transactional({ db: 'analytics', propagation: 'MANDATORY' })
+ * @Transactional({ isolation: 'SERIALIZABLE', readOnly: true })
+ * @Transactional({ isolation: 'SERIALIZABLE', retry: { maxAttempts: 5 } })
+ */
+export function Transactional(dbNameOrOptions?: string | TransactionalOptions): TransactionalDecorator {
+  const options: TransactionalOptions =
+    typeof dbNameOrOptions === 'string' ? { db: dbNameOrOptions } : (dbNameOrOptions ?? {});
+
+  const wrap = (originalMethod: (...args: unknown[]) => unknown) =>
+    async function (this: unknown, ...args: unknown[]) {
+      // DB 인스턴스는 호출 시점에 조회 (데코레이터 평가 이후 registerDb() 허용)
+      const db = getDbInstance(options.db);
+      return runTransactional(db, options, async () => originalMethod.apply(this, args));
+    };
+
+  return ((valueOrTarget: unknown, contextOrKey: unknown, descriptor?: PropertyDescriptor) => {
+    // TC39 표준 데코레이터: 대체할 메소드를 반환
+    if (isDecoratorContext(contextOrKey)) {
+      if (contextOrKey.kind !== 'method') {
+        throw new Error('@Transactional은 메소드에만 사용할 수 있습니다.');
+      }
+      return wrap(valueOrTarget as (...args: unknown[]) => unknown);
+    }
+
+    // legacy 데코레이터: descriptor.value 교체
+    const target = descriptor as PropertyDescriptor;
+    target.value = wrap(target.value);
+    return target;
+  }) as TransactionalDecorator;
 }
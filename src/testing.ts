@@ -0,0 +1,39 @@
+import { test } from "bun:test";
+import { withRollback } from "./internal/transactional";
+
+// ============================================================
+// 테스트 헬퍼 (bunqldb/testing)
+// - bun:test에 의존하므로 기본 export와 분리
+// ============================================================
+
+/**
+ * 롤백 테스트 옵션
+ */
+export interface RollbackTestOptions {
+  /** 트랜잭션을 시작할 데이터베이스 이름 (생략 시 기본 DB) */
+  db?: string;
+  /** 테스트 제한 시간 (ms, bun:test의 timeout) */
+  timeout?: number;
+}
+
+/**
+ * 항상 롤백되는 트랜잭션 안에서 실행하는 테스트를 등록합니다.
+ * - 테스트 안의 sql, DB 헬퍼, @Transactional, DB.transaction()은 모두 이 트랜잭션에 참여
+ * - 테스트가 끝나면 성공/실패와 관계없이 롤백되어 다른 테스트에 데이터가 남지 않음
+ * @example
+ * import { rollbackTest } from "bunqldb/testing";
+ *
+ * rollbackTest("주문을 생성한다", async () => {
+ *   await OrderService.create(order);
+ *   expect(await DB.many(sql`SELECT * FROM orders`)).toHaveLength(1);
+ * });
+ */
+export function rollbackTest(
+  name: string,
+  fn: () => Promise<void>,
+  options: RollbackTestOptions = {}
+): void {
+  test(name, () => withRollback(fn, { db: options.db }), options.timeout);
+}
+
+export { withRollback };
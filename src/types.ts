@@ -1,9 +1,14 @@
+import type { TLSOptions } from "bun";
+import type { DbType } from "./internal/internal-db";
+
 /**
  * SQL 로깅에 사용할 로거 인터페이스
  */
 export interface SqlLogger {
   info: (message: string | object) => void;
   error: (message: string | object) => void;
+  /** 느린 쿼리 로그 (없으면 info 사용) */
+  warn?: (message: string | object) => void;
 }
 
 /**
@@ -14,12 +19,166 @@ export interface SqlLoggingOptions {
   enabled: boolean;
   /** 커스텀 로거 (없으면 console 사용) */
   logger?: SqlLogger;
+  /** 로그에 남길 바인딩 값 마스킹/생략 설정 */
+  redaction?: SqlRedactionOptions;
+  /**
+   * 쿼리 이벤트 핸들러 (지정하면 formatter/logger 대신 호출)
+   * - 구조화된 이벤트를 JSON 로그, APM 등으로 직접 전송할 때 사용
+   */
+  onQuery?: (event: SqlQueryEvent) => void;
+  /** 쿼리 이벤트를 logger에 넘길 메시지로 변환 (기본값: defaultSqlFormatter) */
+  formatter?: SqlQueryFormatter;
+  /**
+   * 느린 쿼리 기준 시간 (ms)
+   * - 기준 이상 걸린 쿼리는 enabled, sql.silent와 관계없이 warn 레벨로 로깅
+   * - 쿼리별로 sql.slow(ms)로 변경 가능
+   */
+  slowQueryThresholdMs?: number;
+  /**
+   * 트랜잭션 밖의 느린 조회 쿼리에 실행 계획(EXPLAIN, JSON 형식)을 붙일지 여부 (기본값: false)
+   * - 쿼리 결과 반환 후 EXPLAIN을 한 번 더 실행하고 이벤트를 발행
+   */
+  explainSlowQueries?: boolean;
+}
+
+/**
+ * 쿼리 실행 이벤트 (성공/실패 모두)
+ */
+export interface SqlQueryEvent {
+  /** 실행한 SQL (값 인라인, redaction 적용. parameterizedOnly면 플레이스홀더) */
+  sql: string;
+  /** 바인딩 값 (redaction 적용, parameterizedOnly면 빈 배열) */
+  params: unknown[];
+  /** 실행 시간 (ms) */
+  durationMs: number;
+  /** 반환된 행 수 (에러면 undefined) */
+  rowCount: number | undefined;
+  /** INSERT/UPDATE/DELETE로 변경된 행 수 (조회 쿼리거나 에러면 undefined) */
+  affectedRows: number | undefined;
+  /** DB 타입 */
+  dbType: DbType;
+  /** 트랜잭션 안에서 실행했는지 여부 */
+  inTransaction: boolean;
+  /** 로깅 모드 (default: 전역 설정, verbose: sql.verbose, silent: sql.silent이지만 느린 쿼리) */
+  mode: "default" | "verbose" | "silent";
+  /** 쿼리를 호출한 위치의 스택 트레이스 (프로덕션에서는 undefined) */
+  callsite: string | undefined;
+  /** 느린 쿼리 기준 시간 이상 걸렸는지 여부 */
+  slow: boolean;
+  /** 느린 조회 쿼리의 실행 계획 (explainSlowQueries 설정 시, 없으면 undefined) */
+  explain: unknown;
+  /** 쿼리 에러 (성공하면 undefined) */
+  error: Error | undefined;
+}
+
+/**
+ * 쿼리 이벤트를 logger에 넘길 메시지로 변환하는 포맷터
+ * - 에러 이벤트는 logger.error, 느린 쿼리는 logger.warn, 그 외는 logger.info로 전달
+ */
+export type SqlQueryFormatter = (event: SqlQueryEvent) => string | object;
+
+/**
+ * SQL 로그 값 마스킹 설정
+ * - SQL 로그, 에러 로그, RowValidationError의 SQL에 적용 (toSqlString에는 적용 안함)
+ */
+export interface SqlRedactionOptions {
+  /**
+   * 값을 가릴 컬럼 (DB 컬럼명 기준, 대소문자 무시, *는 와일드카드)
+   * - JSON/객체 값 안의 키에도 적용 (중첩 객체, 배열 포함)
+   * @example ['password', '*_token', /secret/i]
+   */
+  columns?: ReadonlyArray<string | RegExp>;
+  /**
+   * 커스텀 마스킹 (columns에 해당하지 않는 값마다 호출, 반환값을 로그에 출력)
+   * - 객체 값은 columns에 맞는 키를 가린 복사본으로 전달
+   */
+  redact?: (value: unknown, context: SqlRedactionContext) => unknown;
+  /** 문자열/JSON 값의 최대 길이 (넘으면 잘라서 출력) */
+  maxLength?: number;
+  /** true면 값 없이 플레이스홀더($1 / ?)만 로그에 출력 */
+  parameterizedOnly?: boolean;
+}
+
+/**
+ * 커스텀 마스킹 함수에 전달되는 값의 위치 정보
+ */
+export interface SqlRedactionContext {
+  /** 값이 들어간 컬럼명 (SQL에서 찾지 못하면 undefined) */
+  column: string | undefined;
+  /** 쿼리 안에서 값의 순서 (0부터) */
+  index: number;
 }
 
+/**
+ * DB 연결 설정
+ * - url 또는 host/port/username/password/database 중 하나의 방식으로 지정
+ * - 지정하지 않은 접속 정보는 환경변수(DATABASE_URL, DB_*)를 사용 (기본 DB만 해당)
+ * - 연결 풀 관련 시간 단위는 모두 초(second)
+ */
+export interface DbConnectionConfig {
+  /** 접속 URL (mysql:// 또는 postgres://, DB 타입 자동 감지) */
+  url?: string;
+  /** DB 서버 호스트 */
+  host?: string;
+  /** DB 서버 포트 (기본값: MySQL 3306, PostgreSQL 5432) */
+  port?: number;
+  /** 접속 사용자 */
+  username?: string;
+  /** 접속 비밀번호 (함수를 넘기면 연결 시점마다 호출되어 시크릿 갱신에 대응) */
+  password?: string | (() => string | Promise<string>);
+  /** 데이터베이스 이름 */
+  database?: string;
+  /** DB 타입 (url 없이 host로 접속할 때 지정, 기본값: 'postgres') */
+  dbType?: DbType;
+  /** 최대 연결 수 (기본값: 10) */
+  max?: number;
+  /** 유휴 연결 타임아웃 (기본값: 30) */
+  idleTimeout?: number;
+  /** 연결 수립 타임아웃 */
+  connectionTimeout?: number;
+  /** 연결 최대 수명 (0이면 제한 없음) */
+  maxLifetime?: number;
+  /** TLS 사용 여부 또는 TLS 옵션 */
+  tls?: boolean | TLSOptions;
+  /**
+   * 읽기 전용 복제본(replica) 목록
+   * - DB 헬퍼의 조회 메서드(many, maybeOne, paginate, cursorPaginate 등)가 복제본으로 라우팅됨
+   * - 지정하지 않은 풀 설정(max, idleTimeout 등)은 primary 설정을 따름
+   */
+  replicas?: DbReplicaConnectionConfig[];
+  /** 복제본 선택 전략 (기본값: 'round-robin') */
+  replicaStrategy?: ReplicaStrategy;
+  /**
+   * withReadYourWrites() 범위에서 쓰기 후 조회를 primary로 보내는 시간 (밀리초, 기본값: 0 = 사용 안함)
+   * - 복제 지연으로 방금 쓴 데이터가 조회되지 않는 문제 방지 (read-your-writes)
+   */
+  readYourWritesMs?: number;
+}
+
+/**
+ * 복제본 선택 전략
+ * - round-robin: 순서대로 분배
+ * - least-busy: 실행 중인 쿼리가 가장 적은 복제본 선택
+ */
+export type ReplicaStrategy = "round-robin" | "least-busy";
+
+/**
+ * 복제본 연결 설정 (DB 타입과 복제 관련 설정은 primary를 따름)
+ */
+export type DbReplicaConnectionConfig = Omit<
+  DbConnectionConfig,
+  "dbType" | "replicas" | "replicaStrategy" | "readYourWritesMs"
+>;
+
 /**
  * DB 설정 옵션
  */
 export interface DbConfig {
+  /**
+   * 연결 설정
+   * - 연결 풀이 생성된 후(첫 쿼리 이후)에는 변경할 수 없음
+   */
+  connection?: DbConnectionConfig;
   /** SQL 로깅 설정 */
   logging?: SqlLoggingOptions;
   /**
@@ -28,6 +187,19 @@ export interface DbConfig {
    * - true: MySQL 형식 문자열 ('YYYY-MM-DD HH:mm:ss')로 반환
    */
   dateStrings?: boolean;
+  /**
+   * 커서 토큰 서명 키 (cursorPaginate/bidirectionalCursorPaginate의 sort 옵션 사용 시 필요)
+   * - 지정하지 않으면 환경변수 DB_CURSOR_SECRET 사용 (기본 DB만 해당)
+   */
+  cursorSecret?: string;
+}
+
+/**
+ * registerDb() 등록 옵션
+ */
+export interface DbRegistrationConfig extends DbConfig {
+  /** 접속 URL (connection.url 축약형) */
+  url?: string;
 }
 
 /**
@@ -48,4 +220,11 @@ export const consoleLogger: SqlLogger = {
       console.error(JSON.stringify(message, null, 2));
     }
   },
+  warn: (message) => {
+    if (typeof message === "string") {
+      console.warn(message);
+    } else {
+      console.warn(JSON.stringify(message, null, 2));
+    }
+  },
 };
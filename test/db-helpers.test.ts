@@ -1,5 +1,27 @@
 import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
-import { DB, getDbType, sql } from '../src';
+import {
+  and,
+  configureDb,
+  DB,
+  empty,
+  getDbType,
+  ident,
+  InvalidCursorError,
+  InvalidSortError,
+  not,
+  NotFoundError,
+  or,
+  orderBy,
+  RowValidationError,
+  schema,
+  set,
+  sortBy,
+  sql,
+  TooManyRowsError,
+  values,
+  where,
+  whereClause,
+} from '../src';
 
 // ============================================================
 // 테스트 테이블 설정
@@ -146,6 +168,235 @@ describe('DB.maybeOne()', () => {
   });
 });
 
+// ============================================================
+// DB.one() / DB.oneOrNone() 테스트
+// ============================================================
+
+describe('DB.one() / DB.oneOrNone()', () => {
+  beforeAll(async () => {
+    await clearTestData();
+    await insertTestData(3);
+  });
+
+  test('one()은 단일 행을 조회하고 camelCase로 변환해야 한다', async () => {
+    const result = await DB.one<{ seq: number; name: string; createdAt: Date }>(sql`
+      SELECT * FROM ${sql(TEST_TABLE)} WHERE seq = ${1}
+    `);
+
+    expect(result.name).toBe('User1');
+    expect(result.createdAt).toBeDefined();
+  });
+
+  test('one()은 결과가 없으면 NotFoundError를 던져야 한다', async () => {
+    const promise = DB.one(sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE seq = ${9999}`);
+
+    await expect(promise).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test('one()은 결과가 2개 이상이면 TooManyRowsError를 던져야 한다', async () => {
+    const error = await DB.one(sql`SELECT * FROM ${sql(TEST_TABLE)}`).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TooManyRowsError);
+    expect((error as TooManyRowsError).rowCount).toBe(3);
+  });
+
+  test('oneOrNone()은 결과가 없으면 undefined를 반환해야 한다', async () => {
+    const result = await DB.oneOrNone(sql`
+      SELECT * FROM ${sql(TEST_TABLE)} WHERE seq = ${9999}
+    `);
+
+    expect(result).toBeUndefined();
+  });
+
+  test('oneOrNone()은 결과가 2개 이상이면 TooManyRowsError를 던져야 한다', async () => {
+    const promise = DB.oneOrNone(sql`SELECT * FROM ${sql(TEST_TABLE)}`);
+
+    await expect(promise).rejects.toBeInstanceOf(TooManyRowsError);
+  });
+});
+
+// ============================================================
+// DB.value() / DB.maybeValue() / DB.column() 테스트
+// ============================================================
+
+describe('DB.value() / DB.maybeValue() / DB.column()', () => {
+  beforeAll(async () => {
+    await clearTestData();
+    await insertTestData(3);
+  });
+
+  test('value()는 첫 번째 행의 첫 번째 컬럼 값을 반환해야 한다', async () => {
+    const name = await DB.value<string>(sql`
+      SELECT name, email FROM ${sql(TEST_TABLE)} WHERE seq = ${2}
+    `);
+
+    expect(name).toBe('User2');
+  });
+
+  test('value()는 결과가 없으면 NotFoundError를 던져야 한다', async () => {
+    const promise = DB.value(sql`SELECT name FROM ${sql(TEST_TABLE)} WHERE seq = ${9999}`);
+
+    await expect(promise).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test('maybeValue()는 결과가 없으면 undefined, 값이 NULL이면 null을 반환해야 한다', async () => {
+    expect(
+      await DB.maybeValue(sql`SELECT name FROM ${sql(TEST_TABLE)} WHERE seq = ${9999}`),
+    ).toBeUndefined();
+    expect(await DB.maybeValue(sql`SELECT NULL AS nothing`)).toBeNull();
+  });
+
+  test('maybeValue()는 결과가 2개 이상이면 TooManyRowsError를 던져야 한다', async () => {
+    const promise = DB.maybeValue(sql`SELECT name FROM ${sql(TEST_TABLE)}`);
+
+    await expect(promise).rejects.toBeInstanceOf(TooManyRowsError);
+  });
+
+  test('value()도 DB 값 변환(JSON 파싱 등)을 적용해야 한다', async () => {
+    const jsonQuery = isMySQL()
+      ? sql`SELECT JSON_OBJECT('user_id', 1) AS data`
+      : sql`SELECT '{"user_id": 1}'::jsonb AS data`;
+
+    expect(await DB.value<Record<string, unknown>>(jsonQuery)).toEqual({ userId: 1 });
+  });
+
+  test('column()은 모든 행의 첫 번째 컬럼 값을 배열로 반환해야 한다', async () => {
+    const names = await DB.column<string>(sql`
+      SELECT name FROM ${sql(TEST_TABLE)} ORDER BY seq
+    `);
+
+    expect(names).toEqual(['User1', 'User2', 'User3']);
+  });
+
+  test('column()은 결과가 없으면 빈 배열을 반환해야 한다', async () => {
+    const names = await DB.column(sql`SELECT name FROM ${sql(TEST_TABLE)} WHERE seq = ${9999}`);
+
+    expect(names).toEqual([]);
+  });
+});
+
+// ============================================================
+// DB.exists() / DB.count() 테스트
+// ============================================================
+
+describe('DB.exists() / DB.count()', () => {
+  beforeAll(async () => {
+    await clearTestData();
+    await insertTestData(5);
+  });
+
+  test('exists()는 결과 행이 있으면 true, 없으면 false를 반환해야 한다', async () => {
+    expect(await DB.exists(sql`SELECT 1 FROM ${sql(TEST_TABLE)} WHERE name = ${'User3'}`)).toBe(
+      true,
+    );
+    expect(await DB.exists(sql`SELECT 1 FROM ${sql(TEST_TABLE)} WHERE name = ${'Nobody'}`)).toBe(
+      false,
+    );
+  });
+
+  test('count()는 쿼리 결과의 행 수를 number로 반환해야 한다', async () => {
+    expect(await DB.count(sql`SELECT * FROM ${sql(TEST_TABLE)}`)).toBe(5);
+    expect(
+      await DB.count(sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE status = ${'active'}`),
+    ).toBe(2);
+  });
+});
+
+// ============================================================
+// DB.stream() / DB.streamBatches() 테스트
+// ============================================================
+
+describe('DB.stream() / DB.streamBatches()', () => {
+  beforeAll(async () => {
+    await clearTestData();
+    await insertTestData(25);
+  });
+
+  const orderedQuery = () => sql`SELECT * FROM ${sql(TEST_TABLE)} ORDER BY seq`;
+
+  test('streamBatches()는 batchSize 단위로 camelCase 변환한 배열을 반환해야 한다', async () => {
+    const sizes: number[] = [];
+    const seqs: number[] = [];
+
+    for await (const batch of DB.streamBatches<{ seq: number; createdAt: Date }>(orderedQuery(), {
+      batchSize: 10,
+      keyColumn: 'seq',
+    })) {
+      sizes.push(batch.length);
+      seqs.push(...batch.map((row) => row.seq));
+      expect(batch[0]?.createdAt).toBeDefined();
+    }
+
+    expect(sizes).toEqual([10, 10, 5]);
+    expect(seqs).toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+  });
+
+  test('stream()은 모든 행을 한 행씩 순서대로 반환해야 한다', async () => {
+    const names: string[] = [];
+
+    for await (const row of DB.stream<{ name: string }>(orderedQuery(), { batchSize: 7 })) {
+      names.push(row.name);
+    }
+
+    expect(names).toHaveLength(25);
+    expect(names[0]).toBe('User1');
+    expect(names[24]).toBe('User25');
+  });
+
+  test('중간에 break해도 연결이 반환되어 이후 쿼리가 실행되어야 한다', async () => {
+    // 연결 풀 크기보다 많이 반복해도 연결이 고갈되지 않아야 함
+    for (let i = 0; i < 30; i++) {
+      for await (const _row of DB.stream(orderedQuery(), { batchSize: 5, logging: false })) {
+        break;
+      }
+    }
+
+    expect(await DB.count(sql`SELECT * FROM ${sql(TEST_TABLE)}`)).toBe(25);
+  });
+
+  test('트랜잭션 안에서는 같은 트랜잭션에서 실행되어야 한다', async () => {
+    const names = await DB.transaction(async () => {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name) VALUES (${'Uncommitted'})`;
+
+      // 중간에 break해도 트랜잭션을 계속 사용할 수 있어야 함
+      for await (const _batch of DB.streamBatches(orderedQuery(), { batchSize: 5 })) {
+        break;
+      }
+
+      const collected: string[] = [];
+      for await (const row of DB.stream<{ name: string }>(orderedQuery(), { batchSize: 10 })) {
+        collected.push(row.name);
+      }
+      await sql`DELETE FROM ${sql(TEST_TABLE)} WHERE name = ${'Uncommitted'}`;
+      return collected;
+    });
+
+    expect(names).toHaveLength(26);
+    expect(names).toContain('Uncommitted');
+  });
+
+  test('쿼리 에러는 그대로 전달되어야 한다', async () => {
+    const iterate = async () => {
+      for await (const _row of DB.stream(sql`SELECT * FROM ${sql('not_exists_table')}`)) {
+        // 실행되지 않음
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow();
+    expect(await DB.count(sql`SELECT * FROM ${sql(TEST_TABLE)}`)).toBe(25);
+  });
+
+  test('batchSize가 1 이상의 정수가 아니면 에러를 던져야 한다', async () => {
+    const iterate = async () => {
+      for await (const _row of DB.stream(orderedQuery(), { batchSize: 0 })) {
+        // 실행되지 않음
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow('stream: batchSize는 1 이상의 정수여야 합니다: 0');
+  });
+});
+
 // ============================================================
 // DB.insert() 테스트
 // ============================================================
@@ -210,6 +461,256 @@ describe('DB.insert()', () => {
   });
 });
 
+// ============================================================
+// DB.insertMany() 테스트
+// ============================================================
+
+describe('DB.insertMany()', () => {
+  beforeAll(async () => {
+    await clearTestData();
+  });
+
+  const options = { idColumn: 'seq', logging: false };
+  const countRows = async (): Promise<number> => {
+    const row = await DB.maybeOne<{ cnt: number | string }>(
+      sql`SELECT COUNT(*) AS cnt FROM ${sql(TEST_TABLE)}`,
+    );
+    return Number(row?.cnt);
+  };
+
+  test('camelCase 키를 snake_case 컬럼으로 변환하고 행 순서대로 ID를 반환해야 한다', async () => {
+    const ids = await DB.insertMany(
+      TEST_TABLE,
+      [
+        { name: 'Bulk1', email: 'bulk1@test.com', createdAt: new Date('2025-01-01T00:00:00Z') },
+        { name: 'Bulk2', email: 'bulk2@test.com', createdAt: new Date('2025-01-02T00:00:00Z') },
+      ],
+      options,
+    );
+
+    expect(ids).toHaveLength(2);
+    const rows = await DB.many<{ seq: number; name: string }>(sql`
+      SELECT seq, name FROM ${sql(TEST_TABLE)} WHERE seq IN ${sql(ids)} ORDER BY seq
+    `);
+    expect(rows.map((row) => [row.seq, row.name])).toEqual([
+      [ids[0], 'Bulk1'],
+      [ids[1], 'Bulk2'],
+    ]);
+  });
+
+  test('행마다 키가 달라도 없는 값은 컬럼 기본값(DEFAULT)으로 삽입해야 한다', async () => {
+    const ids = await DB.insertMany(
+      TEST_TABLE,
+      [
+        { name: 'NoEmail', age: 30 },
+        { name: 'WithEmail', email: 'with@test.com', status: 'inactive' },
+        { name: 'ExplicitNull', status: null, age: undefined },
+      ],
+      options,
+    );
+
+    const rows = await DB.many<{ email: string | null; status: string | null; age: number }>(
+      sql`SELECT email, status, age FROM ${sql(TEST_TABLE)} WHERE seq IN ${sql(ids)} ORDER BY seq`,
+    );
+    expect(rows).toEqual([
+      { email: null, status: 'active', age: 30 },
+      { email: 'with@test.com', status: 'inactive', age: 0 },
+      { email: null, status: null, age: 0 },
+    ]);
+  });
+
+  test('chunkSize보다 많은 행은 나누어 삽입하고 모든 ID를 반환해야 한다', async () => {
+    await clearTestData();
+    const rows = Array.from({ length: 250 }, (_, i) => ({ name: `Chunk${i}`, age: i }));
+
+    const ids = await DB.insertMany(TEST_TABLE, rows, { ...options, chunkSize: 100 });
+
+    expect(ids).toHaveLength(250);
+    expect(new Set(ids).size).toBe(250);
+    expect(await countRows()).toBe(250);
+  });
+
+  test('바인딩 파라미터 한도(65535)를 넘는 경우 자동으로 나누어야 한다', async () => {
+    await clearTestData();
+    // 4개 컬럼 x 20000행 = 80000개 파라미터
+    const rows = Array.from({ length: 20000 }, (_, i) => ({
+      name: `Big${i}`,
+      email: `big${i}@test.com`,
+      status: 'active',
+      age: i % 100,
+    }));
+
+    const ids = await DB.insertMany(TEST_TABLE, rows, { ...options, chunkSize: 20000 });
+
+    expect(ids).toHaveLength(20000);
+    expect(await countRows()).toBe(20000);
+  });
+
+  test('트랜잭션 안에서 실행하면 함께 롤백되어야 한다', async () => {
+    await clearTestData();
+
+    await expect(
+      DB.transaction(async () => {
+        await DB.insertMany(TEST_TABLE, [{ name: 'Tx1' }, { name: 'Tx2' }], options);
+        throw new Error('의도적인 에러');
+      }),
+    ).rejects.toThrow('의도적인 에러');
+
+    expect(await countRows()).toBe(0);
+  });
+
+  test('빈 배열은 쿼리 없이 빈 배열을 반환해야 한다', async () => {
+    expect(await DB.insertMany(TEST_TABLE, [])).toEqual([]);
+  });
+});
+
+// ============================================================
+// DB.upsert() 테스트
+// ============================================================
+
+describe('DB.upsert()', () => {
+  const UPSERT_TABLE = 'test_db_upsert';
+
+  interface Product {
+    code: string;
+    region: string;
+    productName: string;
+    hitCount: number;
+  }
+
+  beforeAll(async () => {
+    await sql`DROP TABLE IF EXISTS ${sql(UPSERT_TABLE)}`;
+    await sql`
+      CREATE TABLE ${sql(UPSERT_TABLE)} (
+        code VARCHAR(20) NOT NULL,
+        region VARCHAR(20) NOT NULL,
+        product_name VARCHAR(100) NOT NULL,
+        hit_count INT DEFAULT 0,
+        PRIMARY KEY (code, region)
+      )
+    `;
+  });
+
+  afterAll(async () => {
+    await sql`DROP TABLE IF EXISTS ${sql(UPSERT_TABLE)}`;
+  });
+
+  const conflictColumns = ['code', 'region'];
+  const findProduct = (code: string) =>
+    DB.maybeOne<Product>(sql`SELECT * FROM ${sql(UPSERT_TABLE)} WHERE code = ${code}`);
+
+  test('없는 행은 INSERT하고 camelCase로 변환한 행을 반환해야 한다', async () => {
+    const result = await DB.upsert<Product>(
+      UPSERT_TABLE,
+      { code: 'A1', region: 'KR', productName: 'Apple', hitCount: 1 },
+      { conflictColumns },
+    );
+
+    expect(result.inserted).toBe(1);
+    expect(result.updated).toBe(0);
+    expect(result.rows).toEqual([
+      { code: 'A1', region: 'KR', productName: 'Apple', hitCount: 1 },
+    ]);
+  });
+
+  test('충돌한 행은 UPDATE하고 INSERT/UPDATE 수를 구분해야 한다', async () => {
+    const result = await DB.upsert<Product>(
+      UPSERT_TABLE,
+      [
+        { code: 'A1', region: 'KR', productName: 'Apple v2', hitCount: 2 },
+        { code: 'B1', region: 'KR', productName: 'Banana', hitCount: 1 },
+      ],
+      { conflictColumns },
+    );
+
+    expect(result.rows).toHaveLength(2);
+    if (!isMySQL()) {
+      expect(result.inserted).toBe(1);
+      expect(result.updated).toBe(1);
+    }
+    expect((await findProduct('A1'))?.productName).toBe('Apple v2');
+    expect((await findProduct('B1'))?.productName).toBe('Banana');
+  });
+
+  test('updateColumns에 지정한 컬럼만 UPDATE해야 한다', async () => {
+    await DB.upsert(
+      UPSERT_TABLE,
+      { code: 'A1', region: 'KR', productName: 'Ignored', hitCount: 10 },
+      { conflictColumns, updateColumns: ['hitCount'] },
+    );
+
+    const product = await findProduct('A1');
+    expect(product?.productName).toBe('Apple v2');
+    expect(product?.hitCount).toBe(10);
+  });
+
+  test('doNothing이면 충돌한 행을 변경하지 않아야 한다', async () => {
+    const result = await DB.upsert<Product>(
+      UPSERT_TABLE,
+      [
+        { code: 'A1', region: 'KR', productName: 'Ignored', hitCount: 0 },
+        { code: 'C1', region: 'KR', productName: 'Cherry', hitCount: 0 },
+      ],
+      { conflictColumns, doNothing: true },
+    );
+
+    expect(result.inserted).toBe(1);
+    expect(result.updated).toBe(0);
+    expect((await findProduct('A1'))?.productName).toBe('Apple v2');
+    expect((await findProduct('C1'))?.productName).toBe('Cherry');
+  });
+
+  test('행에 없는 conflictColumns/updateColumns는 에러를 던져야 한다', async () => {
+    const row = { code: 'D1', region: 'KR', productName: 'Durian' };
+
+    await expect(DB.upsert(UPSERT_TABLE, row, { conflictColumns: ['sku'] })).rejects.toThrow(
+      "upsert: conflictColumns의 'sku' 컬럼이 행에 없습니다.",
+    );
+    await expect(
+      DB.upsert(UPSERT_TABLE, row, { conflictColumns, updateColumns: ['hitCount'] }),
+    ).rejects.toThrow("upsert: updateColumns의 'hitCount' 컬럼이 행에 없습니다.");
+    await expect(
+      DB.upsert(UPSERT_TABLE, [row, { code: 'D2', productName: 'Durian' }], { conflictColumns }),
+    ).rejects.toThrow("upsert: conflictColumns의 'region' 값이 없는 행이 있습니다.");
+    expect(await findProduct('D1')).toBeUndefined();
+  });
+
+  test('행에 없는 값은 컬럼 기본값(DEFAULT)으로 INSERT해야 한다', async () => {
+    await DB.upsert(
+      UPSERT_TABLE,
+      [
+        { code: 'E1', region: 'KR', productName: 'Elderberry', hitCount: 5 },
+        { code: 'E2', region: 'KR', productName: 'Fig' },
+      ],
+      { conflictColumns },
+    );
+
+    expect((await findProduct('E1'))?.hitCount).toBe(5);
+    expect((await findProduct('E2'))?.hitCount).toBe(0);
+
+    // 충돌한 행은 값이 없는 컬럼을 갱신하지 않고 기존 값 유지
+    await DB.upsert(
+      UPSERT_TABLE,
+      { code: 'E1', region: 'KR', productName: 'Elder v2' },
+      { conflictColumns },
+    );
+    expect(await findProduct('E1')).toEqual({
+      code: 'E1',
+      region: 'KR',
+      productName: 'Elder v2',
+      hitCount: 5,
+    });
+  });
+
+  test('빈 배열은 쿼리 없이 빈 결과를 반환해야 한다', async () => {
+    expect(await DB.upsert(UPSERT_TABLE, [], { conflictColumns })).toEqual({
+      rows: [],
+      inserted: 0,
+      updated: 0,
+    });
+  });
+});
+
 // ============================================================
 // DB.update() 테스트
 // ============================================================
@@ -369,6 +870,122 @@ describe('DB.paginate()', () => {
   });
 });
 
+// ============================================================
+// DB.paginate() / DB.manyPaging() countStrategy 테스트
+// ============================================================
+
+describe('countStrategy', () => {
+  beforeAll(async () => {
+    await clearTestData();
+    await insertTestData(25);
+  });
+
+  const orderedQuery = () => sql`SELECT * FROM ${sql(TEST_TABLE)} ORDER BY seq`;
+  type Row = { seq: number; pagingIndex?: number };
+
+  test("'window'는 별도 카운트 쿼리 없이 같은 결과를 반환해야 한다", async () => {
+    const separate = await DB.paginate<Row>(orderedQuery(), { page: 2, row: 10 });
+    const windowed = await DB.paginate<Row>(orderedQuery(), {
+      page: 2,
+      row: 10,
+      countStrategy: 'window',
+    });
+
+    expect(windowed).toEqual(separate);
+    expect(windowed.totalRow).toBe(25);
+    expect(windowed.hasNext).toBe(true);
+    expect(windowed.data[0]).not.toHaveProperty('pagingTotalCount');
+  });
+
+  test("'window'는 범위를 벗어난 페이지에서도 전체 행 수를 반환해야 한다", async () => {
+    const result = await DB.manyPaging<Row>(10, 100, orderedQuery(), { countStrategy: 'window' });
+
+    expect(result.data).toHaveLength(0);
+    expect(result.totalRow).toBe(25);
+    expect(result.hasNext).toBe(false);
+  });
+
+  test("'window'는 쿼리의 정렬 순서대로 페이지를 나눠야 한다", async () => {
+    const base = sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE status IN ${sql(['active', 'inactive'])}`;
+    const descQuery = () => sql`${base} ${orderBy('age', 'DESC')}`;
+    const columnsQuery = () => sql`SELECT seq, name FROM ${sql(TEST_TABLE)} ORDER BY age DESC`;
+
+    for (const query of [descQuery, columnsQuery]) {
+      const pages = [];
+      for (const page of [1, 2, 3]) {
+        pages.push(await DB.paginate<Row>(query(), { page, row: 10, countStrategy: 'window' }));
+      }
+
+      expect(pages.flatMap((result) => result.data.map((row) => row.seq))).toEqual(
+        Array.from({ length: 25 }, (_, index) => 25 - index),
+      );
+      expect(pages.map((result) => result.totalRow)).toEqual([25, 25, 25]);
+      expect(pages.map((result) => result.hasNext)).toEqual([true, true, false]);
+    }
+  });
+
+  test("'window'는 SELECT 목록에 추가할 수 없는 쿼리(DISTINCT, UNION)를 따로 카운트해야 한다", async () => {
+    const distinctQuery = () =>
+      sql`SELECT DISTINCT status FROM ${sql(TEST_TABLE)} ORDER BY status DESC`;
+    const unionQuery = () => sql`
+      SELECT seq FROM ${sql(TEST_TABLE)} WHERE seq <= ${3}
+      UNION ALL
+      SELECT seq FROM ${sql(TEST_TABLE)} WHERE seq > ${23}
+      ORDER BY seq DESC
+    `;
+
+    const distinct = await DB.paginate<{ status: string }>(distinctQuery(), {
+      page: 1,
+      row: 1,
+      countStrategy: 'window',
+    });
+    const union = await DB.manyPaging<Row>(2, 2, unionQuery(), { countStrategy: 'window' });
+
+    expect(distinct.data.map((row) => row.status)).toEqual(['inactive']);
+    expect(distinct.totalRow).toBe(2);
+    expect(union.data.map((row) => row.seq)).toEqual([3, 2]);
+    expect(union.totalRow).toBe(5);
+    expect(union.hasNext).toBe(true);
+  });
+
+  test("'none'은 전체 행 수 없이 hasNext만 반환해야 한다", async () => {
+    const middle = await DB.paginate<Row>(orderedQuery(), {
+      page: 2,
+      row: 10,
+      countStrategy: 'none',
+    });
+    const last = await DB.paginate<Row>(orderedQuery(), {
+      page: 3,
+      row: 10,
+      countStrategy: 'none',
+    });
+
+    expect(middle.data.map((row) => row.seq)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+    expect(middle.hasNext).toBe(true);
+    expect(middle).not.toHaveProperty('totalRow');
+    expect(middle.data[0]).not.toHaveProperty('pagingIndex');
+    expect(last.data).toHaveLength(5);
+    expect(last.hasNext).toBe(false);
+  });
+
+  test("'estimate'는 예상 행 수를 반환하고 확인한 행 수보다 작지 않아야 한다", async () => {
+    const result = await DB.manyPaging<Row>(10, 10, orderedQuery(), {
+      countStrategy: 'estimate',
+    });
+
+    expect(result.data).toHaveLength(10);
+    expect(result.hasNext).toBe(true);
+    expect(result.totalRow).toBeGreaterThanOrEqual(21);
+  });
+
+  test("기본값('separate')은 hasNext를 함께 반환해야 한다", async () => {
+    const result = await DB.manyPaging<Row>(10, 20, orderedQuery());
+
+    expect(result.totalRow).toBe(25);
+    expect(result.hasNext).toBe(false);
+  });
+});
+
 // ============================================================
 // DB.cursorPaginate() 테스트
 // ============================================================
@@ -428,6 +1045,643 @@ describe('DB.cursorPaginate()', () => {
   });
 });
 
+// ============================================================
+// DB.cursorPaginate() / DB.bidirectionalCursorPaginate() 다중 컬럼 키셋 테스트
+// ============================================================
+
+describe('다중 컬럼 키셋 커서 페이지네이션 (sort)', () => {
+  type Row = { seq: number; status: string; createdAt: Date };
+
+  beforeAll(async () => {
+    configureDb({ cursorSecret: 'test-cursor-secret' });
+    await clearTestData();
+    await insertTestData(20);
+    // created_at이 겹치도록 4개 값으로 설정 (정렬 컬럼이 유일하지 않은 경우)
+    for (let seq = 1; seq <= 20; seq++) {
+      const createdAt = new Date(Date.UTC(2025, 0, 1, seq % 4, 0, 0, 123));
+      await sql`UPDATE ${sql(TEST_TABLE)} SET created_at = ${createdAt} WHERE seq = ${seq}`;
+    }
+  });
+
+  const baseQuery = () => sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE 1=1`;
+
+  const collectAll = async (sort: { column: string; direction: 'ASC' | 'DESC' }[]) => {
+    const seqs: number[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: { data: Row[]; nextCursor: string | null } = await DB.cursorPaginate<Row>(
+        baseQuery(),
+        { sort, cursor, limit: 6 },
+      );
+      seqs.push(...page.data.map((row) => row.seq));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return seqs;
+  };
+
+  test('정렬 컬럼 값이 겹쳐도 누락/중복 없이 모든 행을 조회해야 한다', async () => {
+    const expected = await DB.column<number>(
+      sql`SELECT seq FROM ${sql(TEST_TABLE)} ORDER BY created_at DESC, seq DESC`,
+    );
+
+    const seqs = await collectAll([
+      { column: 'created_at', direction: 'DESC' },
+      { column: 'seq', direction: 'DESC' },
+    ]);
+
+    expect(seqs).toEqual(expected);
+  });
+
+  test('정렬 방향이 섞여 있어도 올바르게 조회해야 한다', async () => {
+    const expected = await DB.column<number>(
+      sql`SELECT seq FROM ${sql(TEST_TABLE)} ORDER BY status ASC, seq DESC`,
+    );
+
+    const seqs = await collectAll([
+      { column: 'status', direction: 'ASC' },
+      { column: 'seq', direction: 'DESC' },
+    ]);
+
+    expect(seqs).toEqual(expected);
+  });
+
+  test('테이블 별칭이 붙은 정렬 컬럼(t.created_at)도 각 부분을 인용해 조회해야 한다', async () => {
+    const expected = await DB.column<number>(
+      sql`SELECT seq FROM ${sql(TEST_TABLE)} ORDER BY created_at DESC, seq DESC`,
+    );
+    const aliasedQuery = () => sql`SELECT t.* FROM ${sql(TEST_TABLE)} t WHERE 1=1`;
+
+    const seqs: number[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: { data: Row[]; nextCursor: string | null } = await DB.cursorPaginate<Row>(
+        aliasedQuery(),
+        {
+          sort: [
+            { column: 't.created_at', direction: 'DESC' },
+            { column: 't.seq', direction: 'DESC' },
+          ],
+          cursor,
+          limit: 6,
+        },
+      );
+      seqs.push(...page.data.map((row) => row.seq));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seqs).toEqual(expected);
+  });
+
+  test('커서는 불투명한 문자열 토큰이어야 한다', async () => {
+    const page = await DB.cursorPaginate<Row>(baseQuery(), {
+      sort: [{ column: 'created_at', direction: 'DESC' }, 'seq'],
+      limit: 5,
+    });
+
+    expect(typeof page.nextCursor).toBe('string');
+    expect(page.nextCursor).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+  });
+
+  test('bidirectionalCursorPaginate()로 앞뒤 페이지를 오갈 수 있어야 한다', async () => {
+    const sort = [
+      { column: 'created_at', direction: 'DESC' as const },
+      { column: 'seq', direction: 'DESC' as const },
+    ];
+    const first = await DB.bidirectionalCursorPaginate<Row>(baseQuery(), { sort, limit: 5 });
+    const second = await DB.bidirectionalCursorPaginate<Row>(baseQuery(), {
+      sort,
+      cursor: first.nextCursor,
+      limit: 5,
+    });
+    const third = await DB.bidirectionalCursorPaginate<Row>(baseQuery(), {
+      sort,
+      cursor: second.nextCursor,
+      limit: 5,
+    });
+    expect(first.prevCursor).toBeNull();
+
+    // 세 번째 페이지에서 이전 페이지로 이동하면 두 번째 페이지와 같아야 함
+    const backToSecond = await DB.bidirectionalCursorPaginate<Row>(baseQuery(), {
+      sort,
+      cursor: third.prevCursor,
+      limit: 5,
+      direction: 'prev',
+    });
+    expect(backToSecond.data.map((row) => row.seq)).toEqual(second.data.map((row) => row.seq));
+
+    const backToFirst = await DB.bidirectionalCursorPaginate<Row>(baseQuery(), {
+      sort,
+      cursor: backToSecond.prevCursor,
+      limit: 5,
+      direction: 'prev',
+    });
+    expect(backToFirst.data.map((row) => row.seq)).toEqual(first.data.map((row) => row.seq));
+    expect(backToFirst.prevCursor).toBeNull();
+    expect(backToFirst.nextCursor).not.toBeNull();
+  });
+
+  test('위변조되었거나 다른 정렬 조건의 커서는 InvalidCursorError를 던져야 한다', async () => {
+    const sort = [{ column: 'seq', direction: 'DESC' as const }];
+    const page = await DB.cursorPaginate<Row>(baseQuery(), { sort, limit: 5 });
+    const [payload, signature] = (page.nextCursor as string).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ k: 'seq DESC', v: [999] })).toString(
+      'base64url',
+    );
+
+    for (const cursor of [`${forgedPayload}.${signature}`, `${payload}.x${signature}`, 'garbage']) {
+      await expect(DB.cursorPaginate(baseQuery(), { sort, cursor })).rejects.toBeInstanceOf(
+        InvalidCursorError,
+      );
+    }
+    await expect(
+      DB.cursorPaginate(baseQuery(), { sort: ['seq'], cursor: page.nextCursor }),
+    ).rejects.toThrow('다른 정렬 조건으로 만든 커서입니다.');
+  });
+
+  test('정렬 컬럼 값이 NULL이면 InvalidSortError를 던져야 한다', async () => {
+    await sql`UPDATE ${sql(TEST_TABLE)} SET email = NULL`;
+
+    const error = await DB.cursorPaginate(baseQuery(), { sort: ['email', 'seq'], limit: 5 }).catch(
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(InvalidSortError);
+    expect((error as InvalidSortError).input).toBe('email');
+
+    await expect(
+      DB.cursorPaginate(baseQuery(), { cursorColumn: 'email', cursor: null, limit: 5 }),
+    ).rejects.toBeInstanceOf(InvalidSortError);
+    await expect(
+      DB.bidirectionalCursorPaginate(baseQuery(), {
+        cursorColumn: 'email',
+        cursor: null,
+        limit: 5,
+      }),
+    ).rejects.toBeInstanceOf(InvalidSortError);
+  });
+
+  test('정렬 컬럼이 조회 결과에 없으면 InvalidSortError를 던져야 한다', async () => {
+    await expect(
+      DB.cursorPaginate(sql`SELECT name FROM ${sql(TEST_TABLE)} WHERE 1=1`, {
+        sort: ['seq'],
+        limit: 5,
+      }),
+    ).rejects.toThrow("조회 결과에 정렬 컬럼 'seq'이 없습니다.");
+  });
+});
+
+// ============================================================
+// DB.bidirectionalCursorPaginate() pageInfo 테스트
+// ============================================================
+
+describe('DB.bidirectionalCursorPaginate() pageInfo', () => {
+  beforeAll(async () => {
+    configureDb({ cursorSecret: 'test-cursor-secret' });
+    await clearTestData();
+    await insertTestData(20);
+  });
+
+  const baseQuery = () => sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE 1=1`;
+  const seqsOf = (page: { data: { seq: number }[] }) => page.data.map((row) => row.seq);
+
+  test('첫 페이지는 hasPreviousPage가 false이고 endCursor가 nextCursor여야 한다', async () => {
+    const page = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+      cursorColumn: 'seq',
+      cursor: null,
+      limit: 5,
+    });
+
+    expect(seqsOf(page)).toEqual([20, 19, 18, 17, 16]);
+    expect(page.pageInfo).toEqual({
+      hasNextPage: true,
+      hasPreviousPage: false,
+      startCursor: 20,
+      endCursor: 16,
+    });
+    expect(page.nextCursor).toBe(16);
+    expect(page.prevCursor).toBeNull();
+  });
+
+  test('prev 방향으로 조회해도 nextCursor와 prevCursor를 모두 반환해야 한다', async () => {
+    const page = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+      cursorColumn: 'seq',
+      cursor: 10,
+      limit: 5,
+      direction: 'prev',
+    });
+
+    expect(seqsOf(page)).toEqual([15, 14, 13, 12, 11]);
+    expect(page.pageInfo.hasNextPage).toBe(true);
+    expect(page.pageInfo.hasPreviousPage).toBe(true);
+    expect(page.nextCursor).toBe(11);
+    expect(page.prevCursor).toBe(15);
+  });
+
+  test('기본 정렬이 ASC여도 앞뒤로 이동할 수 있어야 한다', async () => {
+    const options = { cursorColumn: 'seq', limit: 5, isDesc: false };
+    const first = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+      ...options,
+      cursor: null,
+    });
+    const second = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+      ...options,
+      cursor: first.nextCursor,
+    });
+    const back = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+      ...options,
+      cursor: second.prevCursor,
+      direction: 'prev',
+    });
+
+    expect(seqsOf(first)).toEqual([1, 2, 3, 4, 5]);
+    expect(seqsOf(second)).toEqual([6, 7, 8, 9, 10]);
+    expect(seqsOf(back)).toEqual([1, 2, 3, 4, 5]);
+    expect(back.pageInfo.hasPreviousPage).toBe(false);
+    expect(back.pageInfo.hasNextPage).toBe(true);
+  });
+
+  test('sort 옵션에서도 기본 정렬 방향과 관계없이 pageInfo를 반환해야 한다', async () => {
+    const sort = ['seq'];
+    let end = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+      sort,
+      limit: 8,
+    });
+    while (end.pageInfo.hasNextPage) {
+      end = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+        sort,
+        cursor: end.pageInfo.endCursor,
+        limit: 8,
+      });
+    }
+
+    expect(seqsOf(end)).toEqual([17, 18, 19, 20]);
+    expect(end.pageInfo.hasNextPage).toBe(false);
+    expect(end.pageInfo.hasPreviousPage).toBe(true);
+    expect(end.nextCursor).toBeNull();
+    expect(end.prevCursor).toBe(end.pageInfo.startCursor);
+  });
+
+  test('반대 방향 pageInfo는 cursor 쪽에 실제로 행이 있는지 확인해야 한다', async () => {
+    const pageAt = (cursor: number, direction: 'next' | 'prev') =>
+      DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+        cursorColumn: 'seq',
+        cursor,
+        limit: 5,
+        direction,
+      });
+
+    // 첫 행(20)이 cursor면 이전 페이지가 있고, 첫 행보다 앞이면 없음
+    const afterFirst = await pageAt(20, 'next');
+    expect(seqsOf(afterFirst)).toEqual([19, 18, 17, 16, 15]);
+    expect(afterFirst.pageInfo.hasPreviousPage).toBe(true);
+    const beforeFirst = await pageAt(21, 'next');
+    expect(seqsOf(beforeFirst)).toEqual([20, 19, 18, 17, 16]);
+    expect(beforeFirst.pageInfo.hasPreviousPage).toBe(false);
+    expect(beforeFirst.prevCursor).toBeNull();
+
+    // 마지막 행(1)이 cursor면 다음 페이지가 있고, 마지막 행보다 뒤면 없음
+    const beforeLast = await pageAt(1, 'prev');
+    expect(seqsOf(beforeLast)).toEqual([6, 5, 4, 3, 2]);
+    expect(beforeLast.pageInfo.hasNextPage).toBe(true);
+    const afterLast = await pageAt(0, 'prev');
+    expect(seqsOf(afterLast)).toEqual([5, 4, 3, 2, 1]);
+    expect(afterLast.pageInfo.hasNextPage).toBe(false);
+    expect(afterLast.nextCursor).toBeNull();
+  });
+
+  test('sort 옵션에서도 cursor 행이 없어진 경계에서는 반대 방향 페이지가 없어야 한다', async () => {
+    const sort = ['seq'];
+    const first = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+      sort,
+      limit: 1,
+    });
+    expect(seqsOf(first)).toEqual([1]);
+
+    // cursor 행(seq 1)이 조회 조건에서 빠지면 그 앞에는 행이 없음
+    const page = await DB.bidirectionalCursorPaginate<{ seq: number }>(
+      sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE seq > ${1}`,
+      { sort, cursor: first.pageInfo.endCursor, limit: 5 },
+    );
+    expect(seqsOf(page)).toEqual([2, 3, 4, 5, 6]);
+    expect(page.pageInfo.hasPreviousPage).toBe(false);
+
+    const withCursorRow = await DB.bidirectionalCursorPaginate<{ seq: number }>(baseQuery(), {
+      sort,
+      cursor: first.pageInfo.endCursor,
+      limit: 5,
+    });
+    expect(withCursorRow.pageInfo.hasPreviousPage).toBe(true);
+  });
+
+  test('totalCount 옵션을 지정하면 전체 행 수를 함께 반환해야 한다', async () => {
+    const withCount = await DB.bidirectionalCursorPaginate(baseQuery(), {
+      cursorColumn: 'seq',
+      cursor: null,
+      limit: 5,
+      totalCount: true,
+    });
+    const withoutCount = await DB.bidirectionalCursorPaginate(baseQuery(), {
+      cursorColumn: 'seq',
+      cursor: null,
+      limit: 5,
+    });
+
+    expect(withCount.totalCount).toBe(20);
+    expect(withoutCount.totalCount).toBeUndefined();
+  });
+});
+
+// ============================================================
+// 행 검증 (schema 옵션) 테스트
+// ============================================================
+
+describe('schema 옵션 (행 검증)', () => {
+  const userSchema = schema.object({
+    seq: schema.number(),
+    name: schema.string(),
+    email: schema.string().nullable(),
+    age: schema.number(),
+    createdAt: schema.date(),
+  });
+
+  beforeAll(async () => {
+    await clearTestData();
+    await insertTestData(5);
+  });
+
+  test('검증을 통과한 행을 반환하고 결과 타입을 스키마에서 추론해야 한다', async () => {
+    const users = await DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)} ORDER BY seq`, {
+      schema: userSchema,
+    });
+
+    expect(users.length).toBe(5);
+    const age: number = users[0]!.age;
+    expect(age).toBe(21);
+    expect(users[0]!.createdAt).toBeInstanceOf(Date);
+  });
+
+  test('문자열로 반환된 숫자를 스키마 타입으로 변환해야 한다', async () => {
+    const total = await DB.value(
+      sql`SELECT CAST(COUNT(*) AS CHAR(10)) AS total FROM ${sql(TEST_TABLE)}`,
+      { schema: schema.number() },
+    );
+
+    expect(total).toBe(5);
+  });
+
+  test('검증에 실패하면 SQL, 행 인덱스, 경로를 담은 RowValidationError를 던져야 한다', async () => {
+    await sql`UPDATE ${sql(TEST_TABLE)} SET email = NULL WHERE seq = 3`;
+    const strictSchema = schema.object({ seq: schema.number(), email: schema.string() });
+
+    const error = await DB.many(
+      sql`SELECT seq, email FROM ${sql(TEST_TABLE)} WHERE seq >= ${2} ORDER BY seq`,
+      { schema: strictSchema },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RowValidationError);
+    const validationError = error as RowValidationError;
+    expect(validationError.rowIndex).toBe(1);
+    expect(validationError.path).toBe('email');
+    expect(validationError.sql).toContain('WHERE seq >= 2');
+    expect(validationError.message).toContain('1번 행의 email 검증에 실패했습니다');
+  });
+
+  test('one, paginate, cursorPaginate, stream에서도 검증해야 한다', async () => {
+    const idOnly = schema.object({ seq: schema.number(), name: schema.string() });
+    const baseQuery = sql`SELECT seq, name FROM ${sql(TEST_TABLE)} WHERE 1=1`;
+
+    const user = await DB.one(sql`SELECT seq, name FROM ${sql(TEST_TABLE)} WHERE seq = 1`, {
+      schema: idOnly,
+    });
+    const page = await DB.paginate(sql`SELECT seq, name FROM ${sql(TEST_TABLE)} ORDER BY seq`, {
+      row: 2,
+      schema: idOnly,
+    });
+    const cursorPage = await DB.cursorPaginate(baseQuery, {
+      cursorColumn: 'seq',
+      cursor: null,
+      limit: 2,
+      schema: idOnly,
+    });
+    const streamed: number[] = [];
+    for await (const row of DB.stream(sql`SELECT seq, name FROM ${sql(TEST_TABLE)} ORDER BY seq`, {
+      batchSize: 2,
+      schema: idOnly,
+    })) {
+      streamed.push(row.seq);
+    }
+
+    expect(user.name).toBe('User1');
+    expect(page.data.map((row) => row.seq)).toEqual([1, 2]);
+    expect(cursorPage.data.map((row) => row.seq)).toEqual([5, 4]);
+    expect(streamed).toEqual([1, 2, 3, 4, 5]);
+
+    const nameAsNumber = schema.object({ name: schema.number() });
+    const streamError = await (async () => {
+      for await (const _ of DB.stream(sql`SELECT seq, name FROM ${sql(TEST_TABLE)} ORDER BY seq`, {
+        batchSize: 2,
+        schema: nameAsNumber,
+      })) {
+        // 첫 행에서 실패해야 함
+      }
+    })().catch((e: unknown) => e);
+    expect(streamError).toBeInstanceOf(RowValidationError);
+    expect((streamError as RowValidationError).rowIndex).toBe(0);
+  });
+
+  test('Standard Schema를 구현한 외부 검증기도 사용할 수 있어야 한다', async () => {
+    const upperName = {
+      '~standard': {
+        version: 1 as const,
+        vendor: 'test',
+        validate: async (value: unknown) => ({
+          value: String((value as { name: string }).name).toUpperCase(),
+        }),
+      },
+    };
+
+    const names = await DB.many(
+      sql`SELECT name FROM ${sql(TEST_TABLE)} WHERE seq <= 2 ORDER BY seq`,
+      { schema: upperName },
+    );
+
+    expect(names).toEqual(['USER1', 'USER2']);
+  });
+});
+
+// ============================================================
+// set() / values() / where() 조각 헬퍼 테스트
+// ============================================================
+
+describe('set() / values() / where()', () => {
+  beforeAll(async () => {
+    await clearTestData();
+  });
+
+  test('values()는 camelCase 키를 컬럼 목록으로 변환하고 없는 키는 DEFAULT로 넣어야 한다', async () => {
+    await sql`INSERT INTO ${sql(TEST_TABLE)} ${values([
+      { name: 'Alice', email: 'alice@test.com', age: 30 },
+      { name: 'Bob', age: 25, createdAt: sql`CURRENT_TIMESTAMP` },
+      { name: 'Carol', status: 'inactive', age: 40 },
+    ])}`;
+
+    const rows = await DB.many(
+      sql`SELECT name, email, status, age FROM ${sql(TEST_TABLE)} ORDER BY seq`,
+    );
+
+    expect(rows).toEqual([
+      { name: 'Alice', email: 'alice@test.com', status: 'active', age: 30 },
+      { name: 'Bob', email: null, status: 'active', age: 25 },
+      { name: 'Carol', email: null, status: 'inactive', age: 40 },
+    ]);
+  });
+
+  test('set()은 undefined 값을 제외하고 SQL 조각 값을 그대로 사용해야 한다', async () => {
+    const affected = await DB.update(sql`
+      UPDATE ${sql(TEST_TABLE)}
+      SET ${set({ email: 'bob@test.com', status: undefined, age: sql`age + 1` })}
+      WHERE name = ${'Bob'}
+    `);
+
+    const bob = await DB.one(
+      sql`SELECT email, status, age FROM ${sql(TEST_TABLE)} WHERE name = 'Bob'`,
+    );
+    expect(affected).toBe(1);
+    expect(bob).toEqual({ email: 'bob@test.com', status: 'active', age: 26 });
+  });
+
+  test('set()에 변경할 값이 없으면 에러를 던져야 한다', () => {
+    expect(() => set({ name: undefined })).toThrow('set: 변경할 컬럼이 없습니다.');
+  });
+
+  test('where()는 값, 배열, null, 연산자 객체를 AND 조건으로 결합해야 한다', async () => {
+    const names = (conditions: Parameters<typeof where>[0]) =>
+      DB.column<string>(
+        sql`SELECT name FROM ${sql(TEST_TABLE)} WHERE ${where(conditions)} ORDER BY seq`,
+      );
+
+    expect(await names({ status: 'active', age: { gte: 26, lt: 40 } })).toEqual(['Alice', 'Bob']);
+    expect(await names({ email: null })).toEqual(['Carol']);
+    expect(await names({ name: ['Alice', 'Carol'], email: { isNull: true } })).toEqual(['Carol']);
+    expect(await names({ name: { like: 'A%' }, age: undefined })).toEqual(['Alice']);
+    expect(await names({ name: { notIn: ['Alice'], ne: 'Carol' } })).toEqual(['Bob']);
+    expect(await names({ age: { in: [] } })).toEqual([]);
+    expect(await names({})).toEqual(['Alice', 'Bob', 'Carol']);
+  });
+
+  test('where()에 지원하지 않는 연산자를 지정하면 에러를 던져야 한다', () => {
+    expect(() => where({ age: { between: [1, 2] } })).toThrow(
+      'where: 지원하지 않는 연산자입니다: between',
+    );
+  });
+});
+
+// ============================================================
+// and() / or() / not() / whereClause() 조건 조합 테스트
+// ============================================================
+
+describe('and() / or() / not() / whereClause()', () => {
+  beforeAll(async () => {
+    await clearTestData();
+    await insertTestData(6);
+  });
+
+  const names = (clause: ReturnType<typeof whereClause>) =>
+    DB.column<string>(sql`SELECT name FROM ${sql(TEST_TABLE)} ${clause} ORDER BY seq`);
+
+  test('조건이 없으면 WHERE 없이 전체 행을 조회해야 한다', async () => {
+    const keyword: string | undefined = undefined;
+
+    expect(await names(whereClause(keyword && sql`name = ${keyword}`, empty(), null))).toEqual([
+      'User1',
+      'User2',
+      'User3',
+      'User4',
+      'User5',
+      'User6',
+    ]);
+  });
+
+  test('OR 안의 조건을 괄호로 감싸 AND와 올바르게 결합해야 한다', async () => {
+    const clause = whereClause(
+      sql`status = ${'active'}`,
+      or(sql`age = ${22} OR age = ${26}`, sql`name = ${'User1'}`),
+    );
+
+    expect(await names(clause)).toEqual(['User2', 'User6']);
+  });
+
+  test('not()은 조건을 부정하고 빈 그룹은 TRUE/FALSE가 되어야 한다', async () => {
+    expect(await names(whereClause(not(sql`age > ${22} AND age < ${26}`)))).toEqual([
+      'User1',
+      'User2',
+      'User6',
+    ]);
+    expect(await names(whereClause(or()))).toEqual([]);
+    expect(await names(whereClause(not(or())))).toHaveLength(6);
+    expect(await names(whereClause(and(undefined, empty())))).toHaveLength(6);
+  });
+
+  test('where() 조각과 함께 조합할 수 있어야 한다', async () => {
+    const clause = whereClause(
+      where({ status: 'inactive' }),
+      or(where({ age: { lte: 21 } }), where({ name: ['User5'] })),
+    );
+
+    expect(await names(clause)).toEqual(['User1', 'User5']);
+  });
+});
+
+// ============================================================
+// ident() / orderBy() / sortBy() 테스트
+// ============================================================
+
+describe('ident() / orderBy() / sortBy()', () => {
+  beforeAll(async () => {
+    await clearTestData();
+    await insertTestData(4);
+  });
+
+  test('ident()는 schema.table.column을 인용하고 인용 문자를 이스케이프해야 한다', async () => {
+    const rows = await DB.many(sql`
+      SELECT t.name AS ${ident('odd"name`col')} FROM ${ident(TEST_TABLE)} t
+      WHERE ${ident('t.seq')} = ${1}
+    `);
+
+    expect(rows).toEqual([{ 'odd"name`col': 'User1' }]);
+  });
+
+  test('orderBy()에 sortBy() 결과를 넘기면 여러 컬럼으로 정렬해야 한다', async () => {
+    const sort = sortBy('status,-age', { status: 't.status', age: 't.age' });
+
+    const names = await DB.column<string>(
+      sql`SELECT t.name FROM ${sql(TEST_TABLE)} t ${orderBy(sort)}`,
+    );
+
+    expect(names).toEqual(['User4', 'User2', 'User3', 'User1']);
+  });
+
+  test('컬럼명으로 SQL을 주입할 수 없어야 한다', async () => {
+    const malicious = 'seq; DROP TABLE test_db_helpers; --';
+
+    await expect(
+      DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)} ${orderBy(malicious, 'DESC')}`),
+    ).rejects.toThrow();
+    await expect(
+      DB.cursorPaginate(sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE 1=1`, {
+        cursorColumn: malicious,
+        cursor: null,
+      }),
+    ).rejects.toThrow();
+    expect(await DB.count(sql`SELECT * FROM ${sql(TEST_TABLE)}`)).toBe(4);
+  });
+
+  test('orderBy()는 ASC/DESC 이외의 정렬 방향을 거부해야 한다', () => {
+    expect(() => orderBy('seq', 'DESC; DROP TABLE users' as 'DESC')).toThrow(
+      'orderBy: 지원하지 않는 정렬 방향입니다',
+    );
+  });
+});
+
 // ============================================================
 // 템플릿 리터럴 조합 테스트
 // ============================================================
@@ -0,0 +1,47 @@
+import type { sql as SqlTag, Transactional as TransactionalFactory } from '../../src';
+
+// ============================================================
+// TC39 표준 데코레이터 fixture
+// - transaction.test.ts에서 experimentalDecorators 없이 변환(Bun.Transpiler)해 불러옴
+// - 변환 결과를 임시 파일로 실행하므로 의존성은 import 대신 인자로 받음
+// ============================================================
+
+export interface Tc39Dependencies {
+  Transactional: typeof TransactionalFactory;
+  sql: typeof SqlTag;
+  table: string;
+}
+
+/**
+ * @Transactional을 TC39 표준 데코레이터로 적용한 서비스 클래스를 만듭니다.
+ * - decoratorKinds: 데코레이터가 받은 두 번째 인자 (표준: context.kind, legacy: 'legacy')
+ */
+export function createTc39Services({ Transactional, sql, table }: Tc39Dependencies) {
+  const decoratorKinds: string[] = [];
+  const recordKind = (_value: unknown, context: unknown) => {
+    decoratorKinds.push(
+      typeof context === 'object' && context !== null && 'kind' in context
+        ? String(context.kind)
+        : 'legacy',
+    );
+  };
+
+  class OrderService {
+    prefix = 'tc39_';
+
+    @recordKind
+    @Transactional()
+    async createAndFail(name: string): Promise<void> {
+      await sql`INSERT INTO ${sql(table)} (name, balance) VALUES (${`${this.prefix}${name}`}, ${0})`;
+      throw new Error('의도적인 에러');
+    }
+
+    @Transactional({ propagation: 'MANDATORY' })
+    static async createInTransaction(name: string): Promise<string> {
+      await sql`INSERT INTO ${sql(table)} (name, balance) VALUES (${name}, ${0})`;
+      return name;
+    }
+  }
+
+  return { OrderService, decoratorKinds };
+}
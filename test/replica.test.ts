@@ -0,0 +1,195 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import {
+  type DbHandle,
+  getDbType,
+  registerDb,
+  unregisterDb,
+  withReadYourWrites,
+  withTransaction,
+} from '../src';
+
+// ============================================================
+// 테스트 설정
+// - 같은 DATABASE_URL로 primary 1개 + 복제본 2개를 등록 (각 풀 max: 1)
+// - 연결 ID(CONNECTION_ID / pg_backend_pid)로 어느 풀에서 실행되었는지 확인
+// ============================================================
+
+const TEST_TABLE = 'test_replica';
+const isMySQL = () => getDbType() === 'mysql';
+
+let db: DbHandle;
+let primaryId: unknown;
+let replicaIds: unknown[];
+
+function connectionIdQuery(target: DbHandle['sql']) {
+  return isMySQL()
+    ? target`SELECT CONNECTION_ID() AS connection_id`
+    : target`SELECT pg_backend_pid() AS connection_id`;
+}
+
+async function currentConnectionId(target: DbHandle['sql']): Promise<unknown> {
+  const row = await db.DB.maybeOne<{ connectionId: unknown }>(connectionIdQuery(target));
+  return row?.connectionId;
+}
+
+beforeAll(async () => {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL 환경변수가 설정되지 않았습니다.');
+  }
+  const url = process.env.DATABASE_URL;
+  db = registerDb('replicated', {
+    connection: {
+      url,
+      max: 1,
+      replicas: [{ url }, { url }],
+      readYourWritesMs: 300,
+    },
+  });
+
+  await db.sql`DROP TABLE IF EXISTS ${db.sql(TEST_TABLE)}`;
+  await db.sql`CREATE TABLE ${db.sql(TEST_TABLE)} (id INT PRIMARY KEY, name VARCHAR(100))`;
+  await db.sql`INSERT INTO ${db.sql(TEST_TABLE)} (id, name) VALUES (${1}, ${'Alice'})`;
+
+  // 각 풀의 연결 ID 수집
+  primaryId = await currentConnectionId(db.sql.primary);
+  replicaIds = [await currentConnectionId(db.sql.replica), await currentConnectionId(db.sql.replica)];
+});
+
+afterAll(async () => {
+  await db.sql`DROP TABLE IF EXISTS ${db.sql(TEST_TABLE)}`;
+  unregisterDb('replicated');
+});
+
+// ============================================================
+// 라우팅 테스트
+// ============================================================
+
+describe('복제본 라우팅', () => {
+  test('primary와 복제본은 서로 다른 연결 풀을 사용해야 한다', () => {
+    expect(new Set([primaryId, ...replicaIds]).size).toBe(3);
+  });
+
+  test('DB 헬퍼 조회 메서드는 복제본으로 round-robin 라우팅되어야 한다', async () => {
+    const first = await currentConnectionId(db.sql);
+    const second = await currentConnectionId(db.sql);
+
+    expect(replicaIds).toContain(first);
+    expect(replicaIds).toContain(second);
+    expect(first).not.toBe(second);
+  });
+
+  test('sql.primary는 DB 헬퍼 조회 메서드에서도 primary로 실행되어야 한다', async () => {
+    expect(await currentConnectionId(db.sql.primary)).toBe(primaryId);
+  });
+
+  test('sql을 직접 실행하면 primary로 실행되어야 한다', async () => {
+    const [row] = await connectionIdQuery(db.sql);
+    expect(row.connection_id).toBe(primaryId);
+  });
+
+  test('paginate의 카운트/데이터 쿼리도 복제본에서 조회되어야 한다', async () => {
+    const result = await db.DB.paginate<{ name: string }>(
+      db.sql`SELECT name FROM ${db.sql(TEST_TABLE)} ORDER BY id`,
+      { page: 1, row: 10 },
+    );
+    expect(result.totalRow).toBe(1);
+    expect(result.data[0]?.name).toBe('Alice');
+  });
+
+  test('트랜잭션 내에서는 항상 primary(트랜잭션 연결)로 실행되어야 한다', async () => {
+    class Service {
+      @db.Transactional()
+      async readInTx(): Promise<unknown> {
+        return currentConnectionId(db.sql.replica);
+      }
+    }
+
+    expect(await new Service().readInTx()).toBe(primaryId);
+  });
+
+  test('쓰기 후 readYourWritesMs 이내의 조회는 primary로 실행되어야 한다', () =>
+    withReadYourWrites(
+      async () => {
+        await db.DB.update(
+          db.sql`UPDATE ${db.sql(TEST_TABLE)} SET name = ${'Bob'} WHERE id = ${1}`,
+        );
+        expect(await currentConnectionId(db.sql)).toBe(primaryId);
+
+        await Bun.sleep(350);
+        expect(replicaIds).toContain(await currentConnectionId(db.sql));
+      },
+      { db: 'replicated' },
+    ));
+
+  test('트랜잭션 안에서 쓰면 커밋 후 조회도 primary로 실행되어야 한다', () =>
+    withReadYourWrites(
+      async () => {
+        await withTransaction(
+          async () => {
+            await db.DB.update(
+              db.sql`UPDATE ${db.sql(TEST_TABLE)} SET name = ${'Carol'} WHERE id = ${1}`,
+            );
+          },
+          { db: 'replicated' },
+        );
+        expect(await currentConnectionId(db.sql)).toBe(primaryId);
+      },
+      { db: 'replicated' },
+    ));
+
+  test('트랜잭션 안에서 sql로 직접 써도 커밋 후 조회는 primary로 실행되어야 한다', () =>
+    withReadYourWrites(
+      async () => {
+        class Service {
+          @db.Transactional()
+          async rename(): Promise<void> {
+            await db.sql`UPDATE ${db.sql(TEST_TABLE)} SET name = ${'Dave'} WHERE id = ${1}`;
+          }
+        }
+
+        await new Service().rename();
+        expect(await currentConnectionId(db.sql)).toBe(primaryId);
+      },
+      { db: 'replicated' },
+    ));
+
+  test('withReadYourWrites 범위 밖의 쓰기는 이후 조회에 영향을 주지 않아야 한다', async () => {
+    await db.DB.update(db.sql`UPDATE ${db.sql(TEST_TABLE)} SET name = ${'Eve'} WHERE id = ${1}`);
+    expect(replicaIds).toContain(await currentConnectionId(db.sql));
+  });
+});
+
+describe('least-busy 전략', () => {
+  test('실행 중인 쿼리가 적은 복제본을 선택해야 한다', async () => {
+    const url = process.env.DATABASE_URL as string;
+    const busy = registerDb('replicated-busy', {
+      connection: { url, max: 1, replicas: [{ url }, { url }], replicaStrategy: 'least-busy' },
+    });
+
+    try {
+      const idOf = async () => {
+        const row = await busy.DB.maybeOne<{ connectionId: unknown }>(
+          isMySQL()
+            ? busy.sql`SELECT CONNECTION_ID() AS connection_id`
+            : busy.sql`SELECT pg_backend_pid() AS connection_id`,
+        );
+        return row?.connectionId;
+      };
+
+      // 첫 번째 복제본에서 느린 쿼리 실행 중
+      const slowQuery = isMySQL()
+        ? busy.DB.many(busy.sql.replica`SELECT SLEEP(0.3) AS slept, CONNECTION_ID() AS connection_id`)
+        : busy.DB.many(busy.sql.replica`SELECT pg_sleep(0.3), pg_backend_pid() AS connection_id`);
+
+      await Bun.sleep(50); // 느린 쿼리가 실행(then)될 때까지 대기
+
+      // round-robin이면 두 번째 조회가 느린 복제본으로 가지만, least-busy는 계속 한가한 복제본 선택
+      const idleIds = [await idOf(), await idOf()];
+      const [slowRow] = await slowQuery;
+
+      expect(idleIds).not.toContain(slowRow?.connectionId);
+    } finally {
+      unregisterDb('replicated-busy');
+    }
+  });
+});
@@ -11,6 +11,7 @@ import {
   configureDb,
   DB,
   getDbType,
+  type SqlQueryEvent,
   sql,
 } from "../src";
 
@@ -294,3 +295,355 @@ describe("기본 sql 동작 (전역 설정 따름)", () => {
     }
   });
 });
+
+// ============================================================
+// SQL 로그 마스킹 테스트 (logging.redaction)
+// ============================================================
+
+describe("SQL 로그 마스킹 (redaction)", () => {
+  test("columns 규칙에 맞는 컬럼의 값은 [REDACTED]로 출력해야 한다", async () => {
+    const logs: string[] = [];
+    const consoleSpy = spyOn(console, "log").mockImplementation((...args) => {
+      logs.push(args.join(" "));
+    });
+
+    try {
+      configureDb({ logging: { enabled: true, redaction: { columns: ["NAME", "*_token"] } } });
+
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name) VALUES (${"SecretUser"})`;
+      await sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE name = ${"SecretUser"} AND id > ${0}`;
+
+      const output = logs.join("\n");
+      expect(output).not.toContain("SecretUser");
+      expect(output).toContain("VALUES ('[REDACTED]')");
+      expect(output).toContain("name = '[REDACTED]' AND id > 0");
+    } finally {
+      consoleSpy.mockRestore();
+    }
+  });
+
+  test("redact 함수의 반환값을 출력하고 maxLength를 넘는 값은 잘라야 한다", async () => {
+    const logs: string[] = [];
+    const contexts: unknown[] = [];
+    const consoleSpy = spyOn(console, "log").mockImplementation((...args) => {
+      logs.push(args.join(" "));
+    });
+
+    try {
+      configureDb({
+        logging: {
+          enabled: true,
+          redaction: {
+            redact: (value, context) => {
+              contexts.push(context);
+              return typeof value === "string" ? value.toUpperCase() : value;
+            },
+            maxLength: 4,
+          },
+        },
+      });
+
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name) VALUES (${"LongName"})`;
+
+      expect(contexts).toEqual([{ column: "name", index: 0 }]);
+      expect(logs.join("\n")).toContain("VALUES ('LONG...(8자)')");
+    } finally {
+      consoleSpy.mockRestore();
+    }
+  });
+
+  test("함수 인자로 들어간 값도 비교 대상 컬럼으로 가려야 한다", async () => {
+    const logs: string[] = [];
+    const consoleSpy = spyOn(console, "log").mockImplementation((...args) => {
+      logs.push(args.join(" "));
+    });
+
+    try {
+      configureDb({ logging: { enabled: true, redaction: { columns: ["name"] } } });
+
+      await sql`
+        SELECT * FROM ${sql(TEST_TABLE)}
+        WHERE name = COALESCE(${"SecretA"}, name) AND LOWER(name) = LOWER(${"SecretB"}) AND id > ${0}
+      `;
+
+      const output = logs.join("\n");
+      expect(output).not.toContain("SecretA");
+      expect(output).not.toContain("SecretB");
+      expect(output).toContain("name = COALESCE('[REDACTED]', name)");
+      expect(output).toContain("LOWER(name) = LOWER('[REDACTED]') AND id > 0");
+    } finally {
+      consoleSpy.mockRestore();
+    }
+  });
+
+  test("JSON/객체 값 안의 키도 columns 규칙으로 가려야 한다", async () => {
+    const events: SqlQueryEvent[] = [];
+    const redacted: unknown[] = [];
+    configureDb({
+      logging: {
+        enabled: true,
+        redaction: {
+          columns: ["password", "*_token"],
+          redact: (value) => {
+            redacted.push(value);
+            return value;
+          },
+        },
+        onQuery: (event) => events.push(event),
+      },
+    });
+
+    const payload = {
+      name: "Alice",
+      password: "PlainPassword",
+      sessions: [{ access_token: "PlainToken", device: "web" }],
+    };
+    // 객체 바인딩 지원 여부는 DB마다 다르므로 실행 결과와 관계없이 로그만 확인
+    try {
+      await sql`SELECT ${payload} AS payload`;
+    } catch {
+      // 에러 이벤트도 같은 SQL과 params를 가짐
+    }
+
+    const [event] = events;
+    const expected = {
+      name: "Alice",
+      password: "[REDACTED]",
+      sessions: [{ access_token: "[REDACTED]", device: "web" }],
+    };
+    expect(event?.sql).not.toContain("Plain");
+    expect(event?.sql).toContain(JSON.stringify(expected));
+    expect(event?.params).toEqual([expected]);
+    expect(redacted).toEqual([expected]);
+    expect(payload.password).toBe("PlainPassword");
+  });
+
+  test("parameterizedOnly면 값 대신 플레이스홀더를 출력해야 한다", async () => {
+    const logs: string[] = [];
+    const consoleSpy = spyOn(console, "log").mockImplementation((...args) => {
+      logs.push(args.join(" "));
+    });
+
+    try {
+      configureDb({ logging: { enabled: true, redaction: { parameterizedOnly: true } } });
+
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name) VALUES (${"HiddenUser"})`;
+
+      const output = logs.join("\n");
+      expect(output).not.toContain("HiddenUser");
+      expect(output).toContain(isMySQL() ? "VALUES (?)" : "VALUES ($1)");
+    } finally {
+      consoleSpy.mockRestore();
+    }
+  });
+
+  test("에러 로그에도 마스킹을 적용해야 한다", async () => {
+    const errors: string[] = [];
+    const consoleSpy = spyOn(console, "error").mockImplementation((...args) => {
+      errors.push(args.join(" "));
+    });
+
+    try {
+      configureDb({ logging: { enabled: true, redaction: { columns: ["name"] } } });
+
+      const error =
+        await sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE name = ${"SecretUser"} AND no_such_column = 1`.catch(
+          (e: unknown) => e,
+        );
+
+      expect(error).toBeInstanceOf(Error);
+
+      const output = errors.join("\n");
+      expect(output).toContain("name = '[REDACTED]'");
+      expect(output).not.toContain("SecretUser");
+    } finally {
+      consoleSpy.mockRestore();
+    }
+  });
+});
+
+// ============================================================
+// 쿼리 이벤트 테스트 (logging.onQuery / logging.formatter)
+// ============================================================
+
+describe("쿼리 이벤트 (onQuery / formatter)", () => {
+  test("onQuery는 실행한 쿼리의 구조화된 이벤트를 받아야 한다", async () => {
+    const events: SqlQueryEvent[] = [];
+    configureDb({ logging: { enabled: true, onQuery: (event) => events.push(event) } });
+
+    await sql`INSERT INTO ${sql(TEST_TABLE)} (name) VALUES (${"EventUser"})`;
+    await sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE name = ${"EventUser"}`;
+
+    expect(events).toHaveLength(2);
+    const [inserted, selected] = events;
+    expect(inserted).toMatchObject({
+      params: ["EventUser"],
+      affectedRows: 1,
+      dbType: getDbType(),
+      inTransaction: false,
+      mode: "default",
+      error: undefined,
+    });
+    expect(inserted?.sql).toContain("VALUES ('EventUser')");
+    expect(inserted?.durationMs).toBeGreaterThanOrEqual(0);
+    expect(inserted?.callsite).toContain("sql-chaining.test.ts");
+    expect(selected?.rowCount).toBe(1);
+  });
+
+  test("트랜잭션 안의 sql.verbose와 에러도 이벤트로 전달해야 한다", async () => {
+    const events: SqlQueryEvent[] = [];
+    configureDb({ logging: { enabled: false, onQuery: (event) => events.push(event) } });
+
+    await DB.transaction(async () => {
+      await sql`SELECT 1`;
+      await sql.verbose`SELECT ${1} AS one`;
+    });
+    const error = await sql.verbose`SELECT * FROM no_such_table_for_event`.catch((e: unknown) => e);
+
+    expect(events.map((event) => [event.mode, event.inTransaction])).toEqual([
+      ["verbose", true],
+      ["verbose", false],
+    ]);
+    expect(events[0]?.rowCount).toBe(1);
+    expect(events[1]?.error).toBe(error as Error);
+    expect(events[1]?.rowCount).toBeUndefined();
+  });
+
+  test("formatter가 반환한 메시지를 logger로 전달해야 한다", async () => {
+    const infos: unknown[] = [];
+    const errors: unknown[] = [];
+    configureDb({
+      logging: {
+        enabled: true,
+        logger: {
+          info: (message) => infos.push(message),
+          error: (message) => errors.push(message),
+        },
+        formatter: (event) => ({ sql: event.sql, rowCount: event.rowCount, failed: !!event.error }),
+      },
+    });
+
+    await sql`SELECT ${"formatted"} AS value`;
+    await sql`SELECT * FROM no_such_table_for_event`.catch(() => undefined);
+
+    expect(infos).toEqual([{ sql: "SELECT 'formatted' AS value", rowCount: 1, failed: false }]);
+    expect(errors).toEqual([
+      { sql: "SELECT * FROM no_such_table_for_event", rowCount: undefined, failed: true },
+    ]);
+  });
+});
+
+// ============================================================
+// 느린 쿼리 테스트 (slowQueryThresholdMs / sql.slow / explainSlowQueries)
+// ============================================================
+
+describe("느린 쿼리 (slowQueryThresholdMs / sql.slow)", () => {
+  test("로깅이 꺼져 있어도 기준 시간 이상 걸린 쿼리만 warn으로 로깅해야 한다", async () => {
+    const infos: unknown[] = [];
+    const warns: unknown[] = [];
+    configureDb({
+      logging: {
+        enabled: false,
+        slowQueryThresholdMs: 30,
+        logger: {
+          info: (message) => infos.push(message),
+          error: (message) => infos.push(message),
+          warn: (message) => warns.push(message),
+        },
+      },
+    });
+
+    await sql`SELECT ${1} AS fast`;
+    if (isMySQL()) {
+      await sql`SELECT SLEEP(${0.05}) AS slow`;
+    } else {
+      await sql`SELECT pg_sleep(${0.05}) AS slow`;
+    }
+
+    expect(infos).toHaveLength(0);
+    expect(warns).toHaveLength(1);
+    expect(String(warns[0])).toStartWith("🐢 [SLOW SQL] SELECT");
+    expect(String(warns[0])).toContain("0.05");
+  });
+
+  test("sql.slow(ms)로 쿼리별 기준 시간을 바꿀 수 있고 sql.silent여도 로깅해야 한다", async () => {
+    const events: SqlQueryEvent[] = [];
+    configureDb({
+      logging: {
+        enabled: false,
+        slowQueryThresholdMs: 60_000,
+        onQuery: (event) => events.push(event),
+      },
+    });
+
+    await sql`SELECT ${1} AS global_threshold`;
+    await sql.slow(0).silent`SELECT ${2} AS per_query_threshold`;
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ slow: true, mode: "silent", explain: undefined });
+    expect(events[0]?.sql).toBe("SELECT 2 AS per_query_threshold");
+  });
+
+  test("explainSlowQueries면 트랜잭션 밖의 느린 조회 쿼리에 실행 계획을 붙여야 한다", async () => {
+    const events: SqlQueryEvent[] = [];
+    let resolveExplained: () => void = () => undefined;
+    const explained = new Promise<void>((resolve) => {
+      resolveExplained = resolve;
+    });
+    configureDb({
+      logging: {
+        enabled: false,
+        explainSlowQueries: true,
+        onQuery: (event) => {
+          events.push(event);
+          if (!event.inTransaction) resolveExplained();
+        },
+      },
+    });
+
+    await DB.transaction(async () => {
+      await sql.slow(0)`SELECT * FROM ${sql(TEST_TABLE)} WHERE name = ${"InTx"}`;
+    });
+    await sql.slow(0)`SELECT * FROM ${sql(TEST_TABLE)} WHERE name = ${"OutsideTx"}`;
+    await explained;
+
+    const [inTx, outsideTx] = events;
+    expect(inTx?.explain).toBeUndefined();
+    expect(outsideTx?.explain).toBeDefined();
+    expect(JSON.stringify(outsideTx?.explain)).toContain(TEST_TABLE);
+  });
+
+  test("실행 계획을 붙인 이벤트에서 onQuery가 던진 에러는 logger.error로 기록해야 한다", async () => {
+    const errors: unknown[] = [];
+    let resolveLogged: () => void = () => undefined;
+    const logged = new Promise<void>((resolve) => {
+      resolveLogged = resolve;
+    });
+    configureDb({
+      logging: {
+        enabled: false,
+        explainSlowQueries: true,
+        logger: {
+          info: () => undefined,
+          error: (message) => {
+            errors.push(message);
+            resolveLogged();
+          },
+        },
+        onQuery: () => {
+          throw new Error("onQuery 실패");
+        },
+      },
+    });
+
+    const rows = await sql.slow(0)`SELECT * FROM ${sql(TEST_TABLE)} WHERE name = ${"Explained"}`;
+    await logged;
+
+    expect(rows).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      message: "[default] 쿼리 이벤트(onQuery/formatter) 처리 중 에러가 발생했습니다.",
+      error: "onQuery 실패",
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { DB, getDbType, onAfterCommit, onAfterRollback, sql, Transactional } from '../src';
+import { rollbackTest, withRollback } from '../src/testing';
+
+// ============================================================
+// 테스트 설정
+// - 롤백 여부를 확인해야 하므로 테스트 사이에 테이블을 비우지 않음
+// ============================================================
+
+const TEST_TABLE = 'test_testing';
+const isMySQL = () => getDbType() === 'mysql';
+
+const insert = (name: string) => sql`INSERT INTO ${sql(TEST_TABLE)} (name) VALUES (${name})`;
+const count = async (): Promise<number> =>
+  (await DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)}`)).length;
+
+class UserService {
+  @Transactional()
+  async create(name: string): Promise<void> {
+    await insert(name);
+  }
+
+  @Transactional({ propagation: 'REQUIRES_NEW' })
+  async audit(name: string): Promise<void> {
+    await insert(name);
+  }
+}
+
+const service = new UserService();
+
+beforeAll(async () => {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL 환경변수가 설정되지 않았습니다.');
+  }
+  await sql`DROP TABLE IF EXISTS ${sql(TEST_TABLE)}`;
+  if (isMySQL()) {
+    await sql`CREATE TABLE ${sql(TEST_TABLE)} (seq INT AUTO_INCREMENT PRIMARY KEY, name VARCHAR(100) NOT NULL)`;
+  } else {
+    await sql`CREATE TABLE ${sql(TEST_TABLE)} (seq SERIAL PRIMARY KEY, name VARCHAR(100) NOT NULL)`;
+  }
+});
+
+afterAll(async () => {
+  await sql`DROP TABLE IF EXISTS ${sql(TEST_TABLE)}`;
+  DB.close();
+});
+
+// ============================================================
+// rollbackTest 테스트
+// ============================================================
+
+describe('rollbackTest()', () => {
+  rollbackTest('sql, DB 헬퍼, @Transactional이 모두 테스트 트랜잭션에 참여해야 한다', async () => {
+    await insert('Raw');
+    await DB.insert(sql`INSERT INTO ${sql(TEST_TABLE)} (name) VALUES (${'Helper'})`);
+    await service.create('Required');
+    await service.audit('RequiresNew');
+    await DB.transaction(() => insert('Programmatic'));
+
+    expect(await count()).toBe(5);
+  });
+
+  test('rollbackTest가 끝나면 모든 데이터가 롤백되어야 한다', async () => {
+    expect(await count()).toBe(0);
+  });
+});
+
+// ============================================================
+// withRollback 테스트
+// ============================================================
+
+describe('withRollback()', () => {
+  test('함수의 결과를 반환하고 데이터는 롤백해야 한다', async () => {
+    const result = await withRollback(async () => {
+      await service.create('Alice');
+      return count();
+    });
+
+    expect(result).toBe(1);
+    expect(await count()).toBe(0);
+  });
+
+  test('함수의 에러는 그대로 전달되어야 한다', async () => {
+    await expect(
+      withRollback(async () => {
+        await insert('Failed');
+        throw new Error('의도적인 에러');
+      }),
+    ).rejects.toThrow('의도적인 에러');
+
+    expect(await count()).toBe(0);
+  });
+
+  test('REQUIRES_NEW 안의 실패는 savepoint까지만 롤백되어야 한다', async () => {
+    const result = await withRollback(async () => {
+      await insert('Outer');
+      await DB.transaction(
+        async () => {
+          await insert('Inner');
+          throw new Error('의도적인 에러');
+        },
+        { propagation: 'REQUIRES_NEW' },
+      ).catch(() => undefined);
+      return count();
+    });
+
+    expect(result).toBe(1);
+  });
+
+  test('커밋 훅 대신 롤백 훅만 실행되어야 한다', async () => {
+    const events: string[] = [];
+
+    await withRollback(async () => {
+      await service.create('Hooked');
+      await onAfterCommit(() => {
+        events.push('afterCommit');
+      });
+      await onAfterRollback(() => {
+        events.push('afterRollback');
+      });
+    });
+
+    expect(events).toEqual(['afterRollback']);
+  });
+});
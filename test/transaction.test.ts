@@ -1,5 +1,24 @@
 import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
-import { DB, getBaseSql, getDbType, sql, Transactional } from '../src';
+import { unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  configureDb,
+  DB,
+  getBaseSql,
+  getDbType,
+  type IsolationLevel,
+  onAfterCommit,
+  onAfterRollback,
+  onBeforeCommit,
+  sql,
+  Transactional,
+  TransactionIsolationError,
+  TransactionPropagationError,
+  TransactionTimeoutError,
+  withTransaction,
+} from '../src';
+import type { createTc39Services } from './fixtures/tc39-decorators';
 
 // ============================================================
 // 테스트 테이블 설정
@@ -280,6 +299,838 @@ describe('@Transactional 데코레이터', () => {
   });
 });
 
+// ============================================================
+// 전파 방식 (propagation) 테스트
+// ============================================================
+
+describe('@Transactional 전파 방식 (propagation)', () => {
+  class AuditService {
+    @Transactional({ propagation: 'REQUIRES_NEW' })
+    async writeAudit(name: string): Promise<void> {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+    }
+
+    @Transactional({ propagation: 'NESTED' })
+    async insertNestedAndFail(name: string): Promise<void> {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+      throw new Error('savepoint 롤백');
+    }
+
+    @Transactional({ propagation: 'MANDATORY' })
+    async insertMandatory(name: string): Promise<void> {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+    }
+
+    @Transactional({ propagation: 'NEVER' })
+    async readNever(): Promise<number> {
+      const rows = await DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)}`);
+      return rows.length;
+    }
+
+    @Transactional({ propagation: 'SUPPORTS' })
+    async insertSupportsAndFail(name: string): Promise<void> {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+      throw new Error('의도적인 에러');
+    }
+  }
+
+  class OrderService {
+    constructor(private readonly audit: AuditService) {}
+
+    @Transactional()
+    async placeOrderAndFail(name: string): Promise<void> {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${100})`;
+      await this.audit.writeAudit(`${name}_audit`);
+      throw new Error('주문 실패');
+    }
+
+    @Transactional()
+    async placeOrderWithNested(name: string): Promise<void> {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${100})`;
+      await this.audit.insertNestedAndFail(`${name}_nested`).catch(() => undefined);
+    }
+
+    @Transactional()
+    async placeOrderWithMandatory(name: string): Promise<void> {
+      await this.audit.insertMandatory(name);
+    }
+
+    @Transactional()
+    async callNever(): Promise<number> {
+      return this.audit.readNever();
+    }
+
+    @Transactional()
+    async placeOrderWithSupportsAndFail(name: string): Promise<void> {
+      await this.audit.insertSupportsAndFail(name);
+    }
+  }
+
+  const audit = new AuditService();
+  const orders = new OrderService(audit);
+
+  const names = async (): Promise<string[]> => {
+    const rows = await DB.many<{ name: string }>(
+      sql`SELECT name FROM ${sql(TEST_TABLE)} ORDER BY seq`,
+    );
+    return rows.map((row) => row.name);
+  };
+
+  test('REQUIRES_NEW는 외부 트랜잭션이 롤백되어도 커밋되어야 한다', async () => {
+    await expect(orders.placeOrderAndFail('Order')).rejects.toThrow('주문 실패');
+    expect(await names()).toEqual(['Order_audit']);
+  });
+
+  test('NESTED는 savepoint까지만 롤백하고 외부 트랜잭션은 유지해야 한다', async () => {
+    await orders.placeOrderWithNested('Order');
+    expect(await names()).toEqual(['Order']);
+  });
+
+  test('NESTED는 트랜잭션이 없으면 새 트랜잭션을 시작해야 한다', async () => {
+    await expect(audit.insertNestedAndFail('Alone')).rejects.toThrow('savepoint 롤백');
+    expect(await names()).toEqual([]);
+  });
+
+  test('MANDATORY는 트랜잭션이 없으면 에러가 발생해야 한다', async () => {
+    const error = await audit.insertMandatory('NoTx').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransactionPropagationError);
+    expect((error as TransactionPropagationError).propagation).toBe('MANDATORY');
+    expect(await names()).toEqual([]);
+  });
+
+  test('MANDATORY는 기존 트랜잭션에 참여해야 한다', async () => {
+    await orders.placeOrderWithMandatory('InTx');
+    expect(await names()).toEqual(['InTx']);
+  });
+
+  test('NEVER는 트랜잭션 안에서 호출하면 에러가 발생해야 한다', async () => {
+    expect(await audit.readNever()).toBe(0);
+    await expect(orders.callNever()).rejects.toBeInstanceOf(TransactionPropagationError);
+  });
+
+  test('SUPPORTS는 트랜잭션이 없으면 트랜잭션 없이 실행되어야 한다', async () => {
+    await expect(audit.insertSupportsAndFail('NoTx')).rejects.toThrow('의도적인 에러');
+    expect(await names()).toEqual(['NoTx']);
+  });
+
+  test('SUPPORTS는 기존 트랜잭션에 참여해야 한다', async () => {
+    await expect(orders.placeOrderWithSupportsAndFail('InTx')).rejects.toThrow('의도적인 에러');
+    expect(await names()).toEqual([]);
+  });
+});
+
+// ============================================================
+// 격리 수준 / 읽기 전용 테스트
+// ============================================================
+
+describe('격리 수준 (isolation) / 읽기 전용 (readOnly)', () => {
+  const currentIsolation = async (): Promise<string> => {
+    const row = await DB.maybeOne<{ isolation: string }>(
+      isMySQL()
+        ? sql`SELECT @@transaction_isolation AS isolation`
+        : sql`SELECT current_setting('transaction_isolation') AS isolation`,
+    );
+    // MySQL: 'SERIALIZABLE' / 'REPEATABLE-READ', PostgreSQL: 'serializable' / 'repeatable read'
+    return (row?.isolation ?? '').toUpperCase().replace('-', ' ');
+  };
+
+  class ReportService {
+    @Transactional({ isolation: 'SERIALIZABLE' })
+    async readIsolation(): Promise<string> {
+      return currentIsolation();
+    }
+
+    @Transactional({ isolation: 'SERIALIZABLE' })
+    async joinSameIsolation(): Promise<string> {
+      return this.readIsolation();
+    }
+
+    @Transactional({ isolation: 'REPEATABLE READ' })
+    async joinOtherIsolation(): Promise<string> {
+      return this.readIsolation();
+    }
+
+    @Transactional({ readOnly: true })
+    async insertInReadOnly(name: string): Promise<void> {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+    }
+  }
+
+  const service = new ReportService();
+
+  test('지정한 격리 수준으로 트랜잭션을 시작해야 한다', async () => {
+    expect(await service.readIsolation()).toBe('SERIALIZABLE');
+  });
+
+  test('같은 격리 수준의 기존 트랜잭션에는 참여할 수 있어야 한다', async () => {
+    expect(await service.joinSameIsolation()).toBe('SERIALIZABLE');
+  });
+
+  test('다른 격리 수준으로 기존 트랜잭션에 참여하면 에러가 발생해야 한다', async () => {
+    const error = await service.joinOtherIsolation().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransactionIsolationError);
+    expect((error as TransactionIsolationError).requested).toBe('SERIALIZABLE');
+    expect((error as TransactionIsolationError).current).toBe('REPEATABLE READ');
+  });
+
+  test('격리 수준을 지정하지 않은 트랜잭션에는 DB의 실제 격리 수준과 비교해 참여해야 한다', async () => {
+    // MySQL 기본값: REPEATABLE READ, PostgreSQL 기본값: READ COMMITTED
+    const defaultIsolation = (await currentIsolation()) as IsolationLevel;
+    const otherIsolation = defaultIsolation === 'SERIALIZABLE' ? 'READ COMMITTED' : 'SERIALIZABLE';
+
+    const joined = await withTransaction(() =>
+      withTransaction(currentIsolation, { isolation: defaultIsolation }),
+    );
+    const error = await withTransaction(() =>
+      withTransaction(currentIsolation, { isolation: otherIsolation }),
+    ).catch((e: unknown) => e);
+
+    expect(joined).toBe(defaultIsolation);
+    expect(error).toBeInstanceOf(TransactionIsolationError);
+    expect((error as TransactionIsolationError).requested).toBe(otherIsolation);
+    expect((error as TransactionIsolationError).current).toBe(defaultIsolation);
+  });
+
+  test('읽기 전용 트랜잭션에서 쓰기는 실패해야 한다', async () => {
+    await expect(service.insertInReadOnly('ReadOnly')).rejects.toThrow();
+
+    const rows = await DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)}`);
+    expect(rows).toHaveLength(0);
+  });
+
+  test('withTransaction()도 같은 옵션을 지원해야 한다', async () => {
+    const isolation = await withTransaction(currentIsolation, { isolation: 'REPEATABLE READ' });
+    expect(isolation).toBe('REPEATABLE READ');
+
+    await expect(
+      withTransaction(
+        async () => {
+          await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'ReadOnly'}, ${0})`;
+        },
+        { readOnly: true },
+      ),
+    ).rejects.toThrow();
+  });
+
+  test('지원하지 않는 격리 수준은 에러가 발생해야 한다', async () => {
+    await expect(
+      withTransaction(currentIsolation, {
+        isolation: 'SNAPSHOT; DROP TABLE users' as 'SERIALIZABLE',
+      }),
+    ).rejects.toThrow('지원하지 않는 격리 수준입니다');
+  });
+});
+
+// ============================================================
+// 재시도 (retry) 테스트
+// ============================================================
+
+describe('데드락/직렬화 실패 재시도 (retry)', () => {
+  const retryLogs: object[] = [];
+  const serializationError = () =>
+    Object.assign(new Error('could not serialize access'), { errno: isMySQL() ? 1213 : '40001' });
+
+  beforeAll(() => {
+    configureDb({
+      logging: {
+        enabled: false,
+        logger: { info: (message) => retryLogs.push(message as object), error: () => undefined },
+      },
+    });
+  });
+
+  beforeEach(() => {
+    retryLogs.length = 0;
+  });
+
+  afterAll(() => {
+    configureDb({ logging: { enabled: false } });
+  });
+
+  test('재시도 가능한 에러면 메소드 전체를 새 트랜잭션으로 다시 실행해야 한다', async () => {
+    let attempts = 0;
+    const name = await withTransaction(
+      async () => {
+        attempts++;
+        await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${`try${attempts}`}, ${0})`;
+        if (attempts < 3) {
+          throw serializationError();
+        }
+        return `try${attempts}`;
+      },
+      { retry: { baseDelayMs: 1 } },
+    );
+
+    expect(name).toBe('try3');
+    expect(attempts).toBe(3);
+
+    // 실패한 시도는 롤백되어야 함
+    const rows = await DB.many<{ name: string }>(sql`SELECT name FROM ${sql(TEST_TABLE)}`);
+    expect(rows.map((row) => row.name)).toEqual(['try3']);
+
+    // 재시도 시도가 로거로 기록되어야 함
+    expect(retryLogs).toHaveLength(2);
+    expect(retryLogs[0]).toMatchObject({ attempt: 2, maxAttempts: 3 });
+  });
+
+  test('재시도할 수 없는 에러는 바로 전달되어야 한다', async () => {
+    let attempts = 0;
+    await expect(
+      withTransaction(
+        async () => {
+          attempts++;
+          throw new Error('일반 에러');
+        },
+        { retry: true },
+      ),
+    ).rejects.toThrow('일반 에러');
+
+    expect(attempts).toBe(1);
+    expect(retryLogs).toHaveLength(0);
+  });
+
+  test('최대 시도 횟수를 넘으면 마지막 에러가 전달되어야 한다', async () => {
+    let attempts = 0;
+    await expect(
+      withTransaction(
+        async () => {
+          attempts++;
+          throw serializationError();
+        },
+        { retry: { maxAttempts: 2, baseDelayMs: 1 } },
+      ),
+    ).rejects.toThrow('could not serialize access');
+
+    expect(attempts).toBe(2);
+  });
+
+  test('shouldRetry로 재시도 조건을 지정할 수 있어야 한다', async () => {
+    let attempts = 0;
+    await withTransaction(
+      async () => {
+        attempts++;
+        if (attempts === 1) {
+          throw new Error('일시적인 에러');
+        }
+      },
+      { retry: { baseDelayMs: 1, shouldRetry: (error) => (error as Error).message === '일시적인 에러' } },
+    );
+
+    expect(attempts).toBe(2);
+  });
+
+  test('기존 트랜잭션에 참여한 경우에는 재시도하지 않아야 한다', async () => {
+    let attempts = 0;
+    class RetryService {
+      @Transactional({ retry: { baseDelayMs: 1 } })
+      async inner(): Promise<void> {
+        attempts++;
+        throw serializationError();
+      }
+
+      @Transactional()
+      async outer(): Promise<void> {
+        await this.inner();
+      }
+    }
+
+    await expect(new RetryService().outer()).rejects.toThrow('could not serialize access');
+    expect(attempts).toBe(1);
+  });
+
+  test('기존 트랜잭션 안의 REQUIRES_NEW는 새 트랜잭션만 재시도해야 한다', async () => {
+    let attempts = 0;
+    class RetryService {
+      @Transactional({ propagation: 'REQUIRES_NEW', retry: { baseDelayMs: 1 } })
+      async inner(): Promise<void> {
+        attempts++;
+        await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${`inner${attempts}`}, ${0})`;
+        if (attempts < 2) {
+          throw serializationError();
+        }
+      }
+
+      @Transactional()
+      async outer(): Promise<void> {
+        await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'outer'}, ${0})`;
+        await this.inner();
+      }
+    }
+
+    await new RetryService().outer();
+
+    expect(attempts).toBe(2);
+    expect(retryLogs).toHaveLength(1);
+    const rows = await DB.many<{ name: string }>(
+      sql`SELECT name FROM ${sql(TEST_TABLE)} ORDER BY name`,
+    );
+    expect(rows.map((row) => row.name)).toEqual(['inner2', 'outer']);
+  });
+
+  test('실제 동시 갱신 충돌도 재시도로 해결되어야 한다', async () => {
+    await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'Counter'}, ${0})`;
+
+    // 두 트랜잭션이 모두 읽은 뒤에 갱신하도록 맞춤 (재시도 시에는 바로 통과)
+    let reads = 0;
+    const bothRead = Promise.withResolvers<void>();
+
+    class CounterService {
+      @Transactional({ isolation: 'SERIALIZABLE', retry: { maxAttempts: 5, baseDelayMs: 10 } })
+      async increment(): Promise<void> {
+        const row = await DB.maybeOne<{ balance: number }>(
+          sql`SELECT balance FROM ${sql(TEST_TABLE)} WHERE name = ${'Counter'}`,
+        );
+        if (++reads === 2) {
+          bothRead.resolve();
+        }
+        await bothRead.promise;
+        await sql`UPDATE ${sql(TEST_TABLE)} SET balance = ${(row?.balance ?? 0) + 1} WHERE name = ${'Counter'}`;
+      }
+    }
+
+    const service = new CounterService();
+    await Promise.all([service.increment(), service.increment()]);
+
+    const counter = await DB.maybeOne<{ balance: number }>(
+      sql`SELECT balance FROM ${sql(TEST_TABLE)} WHERE name = ${'Counter'}`,
+    );
+    expect(counter?.balance).toBe(2);
+    expect(retryLogs.length).toBeGreaterThan(0);
+  });
+});
+
+// ============================================================
+// 트랜잭션 훅 테스트
+// ============================================================
+
+describe('트랜잭션 훅 (onBeforeCommit / onAfterCommit / onAfterRollback)', () => {
+  const events: string[] = [];
+  const hookErrors: object[] = [];
+
+  beforeAll(() => {
+    configureDb({
+      logging: {
+        enabled: false,
+        logger: { info: () => undefined, error: (message) => hookErrors.push(message as object) },
+      },
+    });
+  });
+
+  beforeEach(() => {
+    events.length = 0;
+    hookErrors.length = 0;
+  });
+
+  afterAll(() => {
+    configureDb({ logging: { enabled: false } });
+  });
+
+  class OrderService {
+    @Transactional()
+    async create(name: string, fail = false): Promise<void> {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+      await onBeforeCommit(() => {
+        events.push('beforeCommit');
+      });
+      await onAfterCommit(async () => {
+        // 커밋 이후에는 다른 연결에서도 데이터가 보여야 함
+        const row = await DB.maybeOne(sql`SELECT * FROM ${sql(TEST_TABLE)} WHERE name = ${name}`);
+        events.push(row ? 'afterCommit:visible' : 'afterCommit:missing');
+      });
+      await onAfterRollback(() => {
+        events.push('afterRollback');
+      });
+      events.push('method');
+      if (fail) {
+        throw new Error('의도적인 에러');
+      }
+    }
+
+    @Transactional()
+    async createWithNested(name: string): Promise<void> {
+      await this.create(name);
+      await this.nestedAndFail(`${name}_nested`).catch(() => undefined);
+    }
+
+    @Transactional({ propagation: 'NESTED' })
+    async nestedAndFail(name: string): Promise<void> {
+      await onAfterCommit(() => {
+        events.push('nested:afterCommit');
+      });
+      await onAfterRollback(() => {
+        events.push('nested:afterRollback');
+      });
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+      throw new Error('savepoint 롤백');
+    }
+  }
+
+  const service = new OrderService();
+
+  test('커밋되면 beforeCommit → 커밋 → afterCommit 순서로 실행되어야 한다', async () => {
+    await service.create('Committed');
+    expect(events).toEqual(['method', 'beforeCommit', 'afterCommit:visible']);
+  });
+
+  test('롤백되면 afterRollback만 실행되어야 한다', async () => {
+    await expect(service.create('RolledBack', true)).rejects.toThrow('의도적인 에러');
+    expect(events).toEqual(['method', 'afterRollback']);
+  });
+
+  test('beforeCommit 훅에서 에러가 발생하면 롤백되어야 한다', async () => {
+    await expect(
+      withTransaction(async () => {
+        await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'BeforeFail'}, ${0})`;
+        await onBeforeCommit(() => {
+          throw new Error('검증 실패');
+        });
+      }),
+    ).rejects.toThrow('검증 실패');
+
+    const rows = await DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)}`);
+    expect(rows).toHaveLength(0);
+  });
+
+  test('afterCommit 훅의 에러는 로깅만 하고 커밋 결과를 유지해야 한다', async () => {
+    const result = await withTransaction(async () => {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'AfterFail'}, ${0})`;
+      await onAfterCommit(() => {
+        throw new Error('이벤트 발행 실패');
+      });
+      await onAfterCommit(() => {
+        events.push('next hook');
+      });
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(events).toEqual(['next hook']);
+    expect(hookErrors).toHaveLength(1);
+    expect(hookErrors[0]).toMatchObject({ error: '이벤트 발행 실패' });
+
+    const rows = await DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)}`);
+    expect(rows).toHaveLength(1);
+  });
+
+  test('트랜잭션이 없으면 즉시 실행되어야 한다', async () => {
+    await onAfterCommit(() => {
+      events.push('afterCommit');
+    });
+    await onAfterRollback(() => {
+      events.push('afterRollback');
+    });
+    await onBeforeCommit(() => {
+      events.push('beforeCommit');
+    });
+    expect(events).toEqual(['afterCommit', 'afterRollback', 'beforeCommit']);
+  });
+
+  test('트랜잭션이 없으면 beforeCommit 훅의 에러는 반환한 Promise로, 이후 훅의 에러는 로거로 전달되어야 한다', async () => {
+    await expect(
+      onBeforeCommit(() => {
+        throw new Error('검증 실패');
+      }),
+    ).rejects.toThrow('검증 실패');
+    await onAfterCommit(() => {
+      throw new Error('이벤트 발행 실패');
+    });
+    await onAfterRollback(async () => {
+      throw new Error('보상 처리 실패');
+    });
+
+    expect(hookErrors).toHaveLength(2);
+    expect(hookErrors[0]).toMatchObject({ error: '이벤트 발행 실패' });
+    expect(hookErrors[1]).toMatchObject({ error: '보상 처리 실패' });
+  });
+
+  test('NESTED savepoint 롤백 시 해당 훅만 롤백 처리되어야 한다', async () => {
+    await service.createWithNested('Parent');
+    expect(events).toEqual([
+      'method',
+      'nested:afterRollback',
+      'beforeCommit',
+      'afterCommit:visible',
+    ]);
+  });
+});
+
+// ============================================================
+// DB.transaction() 테스트
+// ============================================================
+
+describe('DB.transaction()', () => {
+  const names = async (): Promise<string[]> => {
+    const rows = await DB.many<{ name: string }>(
+      sql`SELECT name FROM ${sql(TEST_TABLE)} ORDER BY seq`,
+    );
+    return rows.map((row) => row.name);
+  };
+
+  test('함수 안의 sql과 DB 헬퍼가 모두 트랜잭션에 참여해야 한다', async () => {
+    await expect(
+      DB.transaction(async () => {
+        await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'Raw'}, ${0})`;
+        await DB.update(sql`UPDATE ${sql(TEST_TABLE)} SET balance = ${100} WHERE name = ${'Raw'}`);
+
+        // 트랜잭션 안에서는 커밋 전 데이터가 보여야 함
+        const row = await DB.maybeOne<{ balance: number }>(
+          sql`SELECT balance FROM ${sql(TEST_TABLE)} WHERE name = ${'Raw'}`,
+        );
+        expect(row?.balance).toBe(100);
+        throw new Error('의도적인 에러');
+      }),
+    ).rejects.toThrow('의도적인 에러');
+
+    expect(await names()).toEqual([]);
+  });
+
+  test('커밋 후 함수의 반환값을 돌려줘야 한다', async () => {
+    const name = await DB.transaction(async () => {
+      await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'Committed'}, ${0})`;
+      return 'Committed';
+    });
+
+    expect(name).toBe('Committed');
+    expect(await names()).toEqual(['Committed']);
+  });
+
+  test('@Transactional과 같은 전파 방식과 훅을 지원해야 한다', async () => {
+    const events: string[] = [];
+
+    await expect(
+      DB.transaction(async () => {
+        await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'Outer'}, ${0})`;
+        await DB.transaction(
+          async () => {
+            await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${'Audit'}, ${0})`;
+            await onAfterCommit(() => {
+              events.push('audit committed');
+            });
+          },
+          { propagation: 'REQUIRES_NEW' },
+        );
+        await onAfterRollback(() => {
+          events.push('outer rolled back');
+        });
+        throw new Error('의도적인 에러');
+      }),
+    ).rejects.toThrow('의도적인 에러');
+
+    expect(await names()).toEqual(['Audit']);
+    expect(events).toEqual(['audit committed', 'outer rolled back']);
+  });
+
+  test('@Transactional 메소드는 DB.transaction()의 트랜잭션에 참여해야 한다', async () => {
+    class UserService {
+      @Transactional({ propagation: 'MANDATORY' })
+      async create(name: string): Promise<void> {
+        await sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+      }
+    }
+
+    await expect(
+      DB.transaction(async () => {
+        await new UserService().create('Joined');
+        throw new Error('의도적인 에러');
+      }),
+    ).rejects.toThrow('의도적인 에러');
+
+    expect(await names()).toEqual([]);
+  });
+});
+
+// ============================================================
+// TC39 표준 데코레이터 테스트
+// - 테스트 tsconfig는 experimentalDecorators를 사용하므로
+//   fixture를 experimentalDecorators 없이 변환해 임시 파일로 불러옴
+// ============================================================
+
+describe('@Transactional TC39 표준 데코레이터', () => {
+  let services: ReturnType<typeof createTc39Services>;
+
+  beforeAll(async () => {
+    const transpiler = new Bun.Transpiler({
+      loader: 'ts',
+      tsconfig: JSON.stringify({ compilerOptions: { experimentalDecorators: false } }),
+    });
+    const source = await Bun.file(join(import.meta.dir, 'fixtures/tc39-decorators.ts')).text();
+    const file = join(tmpdir(), `bunqldb-tc39-decorators-${process.pid}-${Date.now()}.js`);
+    await Bun.write(file, transpiler.transformSync(source));
+    try {
+      const fixture: typeof import('./fixtures/tc39-decorators') = await import(file);
+      services = fixture.createTc39Services({ Transactional, sql, table: TEST_TABLE });
+    } finally {
+      await unlink(file);
+    }
+  });
+
+  test('표준 데코레이터로 변환되어 context를 받아야 한다', () => {
+    expect(services.decoratorKinds).toEqual(['method']);
+  });
+
+  test('인스턴스 메소드를 트랜잭션으로 감싸고 this를 유지해야 한다', async () => {
+    const service = new services.OrderService();
+
+    await expect(service.createAndFail('User')).rejects.toThrow('의도적인 에러');
+
+    const rows = await DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)}`);
+    expect(rows).toHaveLength(0);
+  });
+
+  test('static 메소드도 전파 옵션을 적용해야 한다', async () => {
+    await expect(services.OrderService.createInTransaction('Outside')).rejects.toThrow(
+      TransactionPropagationError,
+    );
+
+    const name = await withTransaction(() => services.OrderService.createInTransaction('Inside'));
+
+    const rows = await DB.many<{ name: string }>(sql`SELECT name FROM ${sql(TEST_TABLE)}`);
+    expect(name).toBe('Inside');
+    expect(rows.map((row) => row.name)).toEqual(['Inside']);
+  });
+
+  test('메소드가 아닌 곳에 사용하면 에러가 발생해야 한다', () => {
+    const context = { kind: 'field', name: 'value' } as unknown as ClassMethodDecoratorContext;
+    expect(() => Transactional()(async () => undefined, context)).toThrow(
+      '@Transactional은 메소드에만 사용할 수 있습니다.',
+    );
+  });
+});
+
+// ============================================================
+// 타임아웃 / 취소 테스트
+// ============================================================
+
+describe('트랜잭션 타임아웃 (timeout) / 취소 (signal)', () => {
+  const insert = (name: string) =>
+    sql`INSERT INTO ${sql(TEST_TABLE)} (name, balance) VALUES (${name}, ${0})`;
+  const count = async (): Promise<number> =>
+    (await DB.many(sql`SELECT * FROM ${sql(TEST_TABLE)}`)).length;
+
+  test('제한 시간을 넘으면 롤백하고 TransactionTimeoutError를 던져야 한다', async () => {
+    const error = await DB.transaction(
+      async () => {
+        await insert('Slow');
+        await Bun.sleep(300);
+      },
+      { timeout: 100 },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransactionTimeoutError);
+    expect((error as TransactionTimeoutError).timeoutMs).toBe(100);
+    expect(await count()).toBe(0);
+  });
+
+  test('DB 쿼리가 제한 시간을 넘어도 TransactionTimeoutError를 던져야 한다', async () => {
+    await expect(
+      DB.transaction(
+        async () => {
+          await insert('SlowQuery');
+          await (isMySQL() ? sql`SELECT SLEEP(1)` : sql`SELECT pg_sleep(1)`);
+        },
+        { timeout: 200 },
+      ),
+    ).rejects.toBeInstanceOf(TransactionTimeoutError);
+
+    expect(await count()).toBe(0);
+  });
+
+  test('타임아웃 이후 같은 컨텍스트의 쿼리는 거부되어야 한다', async () => {
+    let lateError: unknown;
+    const finished = Promise.withResolvers<void>();
+
+    await expect(
+      DB.transaction(
+        async () => {
+          await Bun.sleep(150);
+          try {
+            await insert('Late');
+          } catch (error) {
+            lateError = error;
+          }
+          finished.resolve();
+        },
+        { timeout: 50 },
+      ),
+    ).rejects.toBeInstanceOf(TransactionTimeoutError);
+
+    await finished.promise;
+    expect(lateError).toBeInstanceOf(TransactionTimeoutError);
+    expect(await count()).toBe(0);
+  });
+
+  test('제한 시간 안에 끝나면 정상 커밋되어야 한다', async () => {
+    await DB.transaction(() => insert('Fast'), { timeout: 1000 });
+    expect(await count()).toBe(1);
+  });
+
+  test('signal로 취소하면 롤백하고 TransactionTimeoutError를 던져야 한다', async () => {
+    const controller = new AbortController();
+    const pending = DB.transaction(
+      async () => {
+        await insert('Cancelled');
+        await Bun.sleep(300);
+      },
+      { signal: controller.signal },
+    );
+
+    await Bun.sleep(50);
+    controller.abort(new Error('사용자 취소'));
+
+    const error = await pending.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(TransactionTimeoutError);
+    expect((error as TransactionTimeoutError).cause).toEqual(new Error('사용자 취소'));
+    expect(await count()).toBe(0);
+  });
+
+  test('signal로 취소하면 실행 중인 쿼리도 취소되어 바로 롤백되어야 한다', async () => {
+    const controller = new AbortController();
+    const startedAt = performance.now();
+    const pending = DB.transaction(
+      async () => {
+        await insert('LongQuery');
+        await (isMySQL() ? sql`SELECT SLEEP(2)` : sql`SELECT pg_sleep(2)`);
+      },
+      { signal: controller.signal },
+    );
+
+    await Bun.sleep(100);
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(TransactionTimeoutError);
+    expect(performance.now() - startedAt).toBeLessThan(1000);
+    expect(await count()).toBe(0);
+  });
+
+  test('이미 취소된 signal이면 트랜잭션을 시작하지 않아야 한다', async () => {
+    let called = false;
+    await expect(
+      DB.transaction(
+        async () => {
+          called = true;
+        },
+        { signal: AbortSignal.abort() },
+      ),
+    ).rejects.toBeInstanceOf(TransactionTimeoutError);
+    expect(called).toBe(false);
+  });
+
+  test('@Transactional에서도 timeout 옵션을 사용할 수 있어야 한다', async () => {
+    class SlowService {
+      @Transactional({ timeout: 50 })
+      async run(): Promise<void> {
+        await insert('Decorated');
+        await Bun.sleep(200);
+      }
+    }
+
+    await expect(new SlowService().run()).rejects.toBeInstanceOf(TransactionTimeoutError);
+    expect(await count()).toBe(0);
+  });
+});
+
 // ============================================================
 // 병렬 쿼리 테스트
 // ============================================================